@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { MemoryClient } from "../runtime/memory.ts";
+import { Client } from "../runtime/node-compat.ts";
+import { BlobIntegrityError } from "./errors.ts";
+
+let root: string;
+let client: Client;
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), "blob-"));
+  client = new Client({ endpoint: pathToFileURL(root).href, bucket: "integrity" });
+});
+
+after(() => rm(root, { recursive: true, force: true }));
+
+test("full reads of a corrupted object fail with a BlobIntegrityError", async () => {
+  await client.write("hello.txt", "Hello World");
+  assert.equal(await client.file("hello.txt").text(), "Hello World");
+
+  await writeFile(join(root, "integrity", "hello.txt"), "Hello_World");
+  await assert.rejects(client.file("hello.txt").text(), (error) => {
+    assert.ok(error instanceof BlobIntegrityError);
+    assert.equal(error.algorithm, "MD5");
+    assert.equal(error.key, "hello.txt");
+    return true;
+  });
+  // Slices cannot be verified against the digest of the whole object
+  assert.equal(await client.file("hello.txt").slice(0, 5).text(), "Hello");
+});
+
+test("full reads are verified against the strongest digest stored", async () => {
+  await client.write("hashed.txt", "Hello World", { checksum: "SHA256" });
+  await writeFile(join(root, "integrity", "hashed.txt"), "Hello Earth");
+  await assert.rejects(client.file("hashed.txt").bytes(), (error) => {
+    assert.ok(error instanceof BlobIntegrityError);
+    assert.equal(error.algorithm, "SHA256");
+    return true;
+  });
+});
+
+test("copies do not carry the checksum algorithm of the source over", async () => {
+  const bucket = new MemoryClient();
+  await bucket.write("source.txt", "Hello World");
+
+  await bucket.file("source.txt", { checksum: "CRC32" }).copyTo("copy.txt");
+  assert.equal(await bucket.file("copy.txt").text(), "Hello World");
+  await assert.rejects(
+    bucket.file("source.txt").copyTo("copy.txt", { checksum: "CRC32" }),
+    TypeError,
+  );
+});
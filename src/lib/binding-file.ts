@@ -0,0 +1,604 @@
+import type { R2Bucket, R2Object, R2ObjectBody } from "@cloudflare/workers-types";
+import { createHash } from "node:crypto";
+import type {
+  NetworkSink,
+  R2BindingOptions,
+  R2Conditions,
+  R2CopyOptions,
+  R2File,
+  R2FilePresignOptions,
+  R2Options,
+  R2Stats,
+  R2WriteData,
+} from "./types.ts";
+import { R2FileReader } from "./file.ts";
+import { bindingObjectHeaders, statFromObject } from "./metadata.ts";
+import { parsePath } from "./path.ts";
+import { type ByteRange, rangeNeedsSize, rangeSize, resolveRange, sliceRange } from "./range.ts";
+import { type MultipartTarget, pipeToWriter, R2FileWriter } from "./writer.ts";
+import { toUploadBody } from "./body.ts";
+import {
+  chunkRange,
+  decryptStream,
+  envelopeMetadata,
+  openEnvelope,
+  plaintextStats,
+  uploadWriter,
+} from "./encryption.ts";
+import { compressingWriter, decompressStream, readCompression } from "./compression.ts";
+import { retryPolicy, withRetry } from "./retry.ts";
+import { bindingCustomerKey } from "./sse.ts";
+import {
+  type BlobErrorLocation,
+  BlobIntegrityError,
+  BlobNotFoundError,
+  BlobNotModifiedError,
+  BlobPreconditionFailedError,
+  withBlobErrors,
+} from "./errors.ts";
+import {
+  bindingConditions,
+  evaluateConditions,
+  hasConditions,
+  pickConditions,
+  withoutConditions,
+} from "./conditions.ts";
+
+const notFound = (location: BlobErrorLocation) =>
+  new BlobNotFoundError(`The specified key does not exist: ${location.key}`, {
+    ...location,
+    statusCode: 404,
+  });
+
+/**
+ * Checks preconditions the binding cannot apply itself against the current
+ * object. Writes have no cached copy to fall back on, so any failure of
+ * theirs is a failed precondition.
+ */
+function assertConditions(
+  conditions: R2Conditions,
+  object: R2Object | null,
+  location: BlobErrorLocation,
+  write = false,
+) {
+  const result = evaluateConditions(
+    conditions,
+    object && { etag: object.etag, lastModified: object.uploaded },
+  );
+
+  if (result === "not-modified" && !write) {
+    throw new BlobNotModifiedError(`Not modified for "${location.key}"`, {
+      ...location,
+      statusCode: 304,
+    });
+  }
+  if (result) {
+    throw new BlobPreconditionFailedError(`Precondition failed for "${location.key}"`, {
+      ...location,
+      statusCode: 412,
+    });
+  }
+}
+
+/** The digests a binding stores with objects, strongest first. */
+const DIGESTS = ["sha512", "sha384", "sha256", "sha1", "md5"] as const;
+
+/**
+ * Verifies the content of a full read against a digest stored with the
+ * object, failing the stream at its end on a mismatch.
+ */
+function verifyDigest(
+  body: ReadableStream<Uint8Array>,
+  name: (typeof DIGESTS)[number],
+  digest: ArrayBuffer,
+  location: BlobErrorLocation,
+): ReadableStream<Uint8Array> {
+  const expected = Buffer.from(digest);
+  const hash = createHash(name);
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        hash.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush(controller) {
+        const actual = hash.digest();
+        if (actual.equals(expected)) return;
+        const algorithm = name.toUpperCase();
+        controller.error(
+          new BlobIntegrityError(
+            `The ${algorithm} checksum of the content does not match for "${location.key}"`,
+            {
+              ...location,
+              algorithm,
+              expected: expected.toString("base64"),
+              actual: actual.toString("base64"),
+            },
+          ),
+        );
+      },
+    }),
+  );
+}
+
+/**
+ * The options of the write of a copy, which apply to its destination: the
+ * preconditions and the options describing the source are left out.
+ */
+function copyWriteOptions(options?: R2CopyOptions): R2Options {
+  const rest = withoutConditions({ ...options });
+  delete rest.metadataDirective;
+  delete rest.sourceIfMatch;
+  delete rest.sourceSseCustomerKey;
+  delete rest.sourceSseCustomerAlgorithm;
+  return rest;
+}
+
+/** The parts of an object body the reads consume. */
+type ObjectBody = Pick<R2ObjectBody, "body" | "arrayBuffer" | "text">;
+
+/**
+ * Creates the URL of a presigned file, for buckets that are not signed through
+ * the S3 API.
+ */
+export type Presigner = (key: string, options?: R2FilePresignOptions) => Promise<string>;
+
+/**
+ * An {@link R2File} backed by the native R2 bucket binding of Cloudflare Workers.
+ * Only {@link presign} goes through the S3 API, since bindings cannot sign URLs,
+ * unless a `presigner` is given.
+ */
+export class R2BindingFile implements R2File {
+  readonly name: string;
+  readonly bucket: string;
+  readonly #options: R2BindingOptions;
+  readonly #bucket: () => R2Bucket;
+  readonly #range?: ByteRange;
+  readonly #presigner?: Presigner;
+
+  constructor(
+    path: string,
+    bucket: () => R2Bucket,
+    options?: R2BindingOptions,
+    range?: ByteRange,
+    presigner?: Presigner,
+  ) {
+    const parsed = parsePath(path, options?.bucket);
+    if (options?.bucket && parsed.bucket !== options.bucket) {
+      // A binding is tied to a single bucket, so a URL cannot redirect it elsewhere
+      throw new Error(
+        `"${path}" is not in the bucket "${options.bucket}" of the configured binding`,
+      );
+    }
+    this.name = parsed.key;
+    this.bucket = parsed.bucket;
+    this.#bucket = bucket;
+    this.#options = options || {};
+    this.#range = range;
+    this.#presigner = presigner;
+  }
+
+  // Blob properties
+  get size(): number {
+    return rangeSize(this.#range);
+  }
+
+  get type(): string {
+    return this.#options.type ?? "";
+  }
+
+  get readable(): ReadableStream<Uint8Array<ArrayBuffer>> {
+    return this.stream();
+  }
+
+  get #location(): BlobErrorLocation {
+    return { bucket: this.bucket || undefined, key: this.name };
+  }
+
+  /** Calls the binding, retrying transient failures as the `retry` option asks. */
+  #call<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    return withBlobErrors(this.#location, () =>
+      withRetry(fn, retryPolicy(this.#options.retry), operation),
+    );
+  }
+
+  slice(begin?: number, end?: number, contentType?: string): R2File;
+  slice(begin?: number, contentType?: string): R2File;
+  slice(contentType?: string): R2File;
+  slice(
+    beginOrContentType?: number | string,
+    endOrContentType?: number | string,
+    contentType?: string,
+  ): R2File {
+    const { range, type } = sliceRange(
+      this.#range,
+      beginOrContentType,
+      endOrContentType,
+      contentType,
+    );
+
+    return new R2BindingFile(
+      this.name,
+      this.#bucket,
+      { ...this.#options, bucket: this.bucket || undefined, type: type ?? this.#options.type },
+      range,
+      this.#presigner,
+    );
+  }
+
+  async exists(): Promise<boolean> {
+    const object = await this.#call("HeadObject", () => this.#bucket().head(this.name));
+    return object !== null;
+  }
+
+  writer(options?: R2Options): NetworkSink {
+    return this.#uploadWriter({ ...this.#options, ...options });
+  }
+
+  stream(options?: R2Conditions): ReadableStream<Uint8Array<ArrayBuffer>> {
+    // oxlint-disable-next-line no-this-alias
+    const self = this;
+    return new ReadableStream({
+      async start(controller) {
+        try {
+          const object = await self.#get(options);
+
+          if (!object) {
+            controller.close();
+            return;
+          }
+
+          const reader = (
+            object.body as unknown as ReadableStream<Uint8Array<ArrayBuffer>>
+          ).getReader();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            controller.enqueue(value);
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+  }
+
+  async arrayBuffer(options?: R2Conditions): Promise<ArrayBuffer> {
+    const object = await this.#get(options);
+    return object ? object.arrayBuffer() : new ArrayBuffer(0);
+  }
+
+  async text(options?: R2Conditions): Promise<string> {
+    const object = await this.#get(options);
+    return object ? object.text() : "";
+  }
+
+  async json<T>(options?: R2Conditions): Promise<T> {
+    const text = await this.text(options);
+    return JSON.parse(text) as T;
+  }
+
+  async bytes(options?: R2Conditions): Promise<Uint8Array<ArrayBuffer>> {
+    return new Uint8Array(await this.arrayBuffer(options));
+  }
+
+  /**
+   * Fetches the object, honoring the byte range of this slice and the preconditions.
+   * Resolves to `null` when the slice is known to be empty.
+   * Full reads are verified against the digest stored with the object as the body is consumed.
+   * Encrypted objects are decrypted, slices fetching the whole chunks they overlap.
+   * Objects are decompressed according to their Content-Encoding, unless disabled,
+   * and slices of compressed objects rejected since they cannot be decoded.
+   */
+  async #get(options?: R2Conditions): Promise<ObjectBody | null> {
+    const conditions = pickConditions({ ...this.#options, ...options });
+    const encryption = this.#options.encryption;
+    // Offsets relative to the end of the object need its size unless they form a suffix range,
+    // and slices of encrypted objects the layout of their chunks
+    const head =
+      this.#range && (encryption || rangeNeedsSize(this.#range))
+        ? await this.#head(conditions)
+        : undefined;
+    const envelope = head && openEnvelope(head.customMetadata, encryption, this.#location);
+    const resolved = resolveRange(
+      this.#range,
+      head && (envelope ? envelope.plaintextSize(head.size) : head.size),
+    );
+    if (resolved === null) {
+      return null;
+    }
+    const { range, window } =
+      head && envelope
+        ? chunkRange(envelope, resolved, head.size)
+        : { range: resolved, window: undefined };
+
+    const object = await this.#call("GetObject", () =>
+      this.#bucket().get(this.name, {
+        range,
+        ...bindingCustomerKey(this.#options),
+        // The chunks must belong to the version whose envelope was read
+        onlyIf: bindingConditions(envelope ? { ...conditions, ifMatch: head?.etag } : conditions),
+      }),
+    );
+    if (!object) {
+      throw notFound(this.#location);
+    }
+    if (!("body" in object)) {
+      // The binding omits the body when a precondition fails, without saying which one
+      assertConditions(conditions, object, this.#location);
+      throw new BlobPreconditionFailedError(`Precondition failed for "${this.name}"`, {
+        ...this.#location,
+        statusCode: 412,
+      });
+    }
+
+    const opened = envelope ?? openEnvelope(object.customMetadata, encryption, this.#location);
+    let compression;
+    try {
+      compression = readCompression(
+        object.httpMetadata?.contentEncoding,
+        Boolean(resolved),
+        this.#options,
+        this.#location,
+      );
+    } catch (error) {
+      await object.body.cancel();
+      throw error;
+    }
+    // Digests cover the whole stored content, before it is decrypted or decompressed,
+    // and multipart uploads have none
+    const digest = resolved ? undefined : DIGESTS.find((name) => object.checksums[name]);
+    if (!opened && !compression && !digest) {
+      return object;
+    }
+
+    let body = object.body as unknown as ReadableStream<Uint8Array>;
+    if (digest) {
+      body = verifyDigest(body, digest, object.checksums[digest]!, this.#location);
+    }
+    if (opened) {
+      body = decryptStream(
+        body,
+        opened,
+        window ?? chunkRange(opened, undefined, object.size).window,
+        this.#location,
+      );
+    }
+    if (compression) {
+      body = decompressStream(body, compression, this.#location);
+    }
+    return {
+      body: body as unknown as R2ObjectBody["body"],
+      arrayBuffer: () => new Response(body).arrayBuffer(),
+      text: () => new Response(body).text(),
+    };
+  }
+
+  async write(data: R2WriteData, options?: R2Options): Promise<number> {
+    const { body, type } = toUploadBody(data);
+    const writeOptions = {
+      ...this.#options,
+      ...options,
+      type: options?.type ?? this.#options.type ?? type,
+    };
+
+    return pipeToWriter(body, this.#uploadWriter(writeOptions));
+  }
+
+  /** Creates the writer of an upload, which encrypts the content when the options ask for it. */
+  #uploadWriter(options: R2Options) {
+    return compressingWriter(options, (options) =>
+      uploadWriter(
+        options,
+        (options) =>
+          new R2FileWriter(bindingMultipartTarget(this.#bucket, this.name, options), options),
+      ),
+    );
+  }
+
+  async presign(options?: R2FilePresignOptions): Promise<string> {
+    if (this.#presigner) {
+      return this.#presigner(this.name, options);
+    }
+
+    let range = options?.range;
+    if (!range && (options?.method ?? "GET") === "GET" && rangeNeedsSize(this.#range)) {
+      // The size comes from the binding, since the S3 API may not reach the same bucket
+      const resolved = resolveRange(this.#range, (await this.stat()).size);
+      if (resolved === null) {
+        throw new RangeError(`Cannot presign the empty slice of "${this.name}"`);
+      }
+      range = resolved;
+    }
+
+    return new R2FileReader(
+      this.name,
+      { ...this.#options, bucket: this.bucket },
+      this.#range,
+    ).presign({ ...options, range });
+  }
+
+  /**
+   * Bindings have no server-side copy, so the object is streamed from the
+   * source to the destination within Cloudflare's network instead.
+   */
+  async copyTo(destination: string | R2File, options?: R2CopyOptions): Promise<R2File> {
+    // The checksum of the source does not carry over, since the binding cannot compute CRCs
+    const target =
+      typeof destination === "string"
+        ? new R2BindingFile(
+            destination,
+            this.#bucket,
+            withoutConditions({ ...this.#options, checksum: undefined, ...options }),
+            undefined,
+            this.#presigner,
+          )
+        : destination;
+
+    const object = await this.#call("GetObject", () =>
+      this.#bucket().get(this.name, {
+        onlyIf: bindingConditions({ ifMatch: options?.sourceIfMatch }),
+        ...bindingCustomerKey({
+          sseCustomerKey: options?.sourceSseCustomerKey ?? this.#options.sseCustomerKey,
+        }),
+      }),
+    );
+    if (!object) {
+      throw notFound(this.#location);
+    }
+    if (!("body" in object)) {
+      throw new BlobPreconditionFailedError(
+        `The ETag of "${this.name}" does not match ${options?.sourceIfMatch}`,
+        { ...this.#location, statusCode: 412 },
+      );
+    }
+
+    // Carry the headers and metadata of the source over, unless they are replaced.
+    // The content is copied as is, so it must keep its encoding and encryption envelope
+    const envelope = envelopeMetadata(object.customMetadata);
+    const headers =
+      options?.metadataDirective === "REPLACE"
+        ? {
+            contentEncoding:
+              options.contentEncoding ??
+              this.#options.contentEncoding ??
+              object.httpMetadata?.contentEncoding,
+            ...(Object.keys(envelope).length > 0 && {
+              metadata: { ...(options.metadata ?? this.#options.metadata), ...envelope },
+            }),
+          }
+        : {
+            type: object.httpMetadata?.contentType,
+            metadata: object.customMetadata,
+            cacheControl: object.httpMetadata?.cacheControl,
+            contentDisposition: object.httpMetadata?.contentDisposition,
+            contentEncoding: object.httpMetadata?.contentEncoding,
+            contentLanguage: object.httpMetadata?.contentLanguage,
+            expires: object.httpMetadata?.cacheExpiry,
+          };
+
+    await target.write(object.body as unknown as ReadableStream<Uint8Array>, {
+      ...copyWriteOptions(options),
+      ...headers,
+      compress: undefined,
+      encryption: undefined,
+    });
+
+    return target;
+  }
+
+  /**
+   * Bindings cannot delete conditionally, so preconditions are checked with
+   * a separate request first, leaving a short window for concurrent writes.
+   */
+  async delete(options?: R2Conditions): Promise<void> {
+    const conditions = pickConditions({ ...this.#options, ...options });
+    if (hasConditions(conditions)) {
+      const object = await this.#call("HeadObject", () => this.#bucket().head(this.name));
+      assertConditions(conditions, object, this.#location, true);
+    }
+
+    await this.#call("DeleteObject", () => this.#bucket().delete(this.name));
+  }
+
+  unlink = this.delete;
+
+  async stat(options?: R2Conditions): Promise<R2Stats> {
+    const object = await this.#head(pickConditions({ ...this.#options, ...options }));
+    return plaintextStats(statFromObject(object));
+  }
+
+  async #head(conditions: R2Conditions): Promise<R2Object> {
+    const object = await this.#call("HeadObject", () => this.#bucket().head(this.name));
+    if (!object) {
+      throw notFound(this.#location);
+    }
+    assertConditions(conditions, object, this.#location);
+
+    return object;
+  }
+}
+
+function bindingMultipartTarget(
+  bucket: () => R2Bucket,
+  key: string,
+  options?: R2Options,
+): MultipartTarget {
+  const customerKey = bindingCustomerKey(options);
+  const putOptions = {
+    ...bindingObjectHeaders(options),
+    storageClass: options?.storageClass,
+    ...customerKey,
+  };
+  const conditions = pickConditions(options);
+  const location = { bucket: options?.bucket, key };
+  const policy = retryPolicy(options?.retry);
+  const algorithm = options?.checksum;
+  if (algorithm && algorithm !== "SHA1" && algorithm !== "SHA256") {
+    throw new TypeError(`R2 bindings do not support ${algorithm} checksums, use SHA1 or SHA256`);
+  }
+  const call = <T>(operation: string, fn: () => Promise<T>, conditional = false) =>
+    withBlobErrors(location, () => withRetry(fn, policy, operation, conditional));
+
+  return {
+    async put(body) {
+      // The binding verifies the digest before storing the object; parts cannot carry one
+      const digest = algorithm && {
+        [algorithm.toLowerCase()]: createHash(algorithm.toLowerCase()).update(body).digest("hex"),
+      };
+      const object = await call(
+        "PutObject",
+        () =>
+          bucket().put(key, body, {
+            ...putOptions,
+            ...digest,
+            onlyIf: bindingConditions(conditions),
+          }),
+        hasConditions(conditions),
+      );
+      // The binding resolves to null instead of rejecting when a precondition fails
+      if (!object) {
+        throw new BlobPreconditionFailedError(`Precondition failed for "${key}"`, {
+          ...location,
+          statusCode: 412,
+        });
+      }
+    },
+    async create() {
+      const upload = await call("CreateMultipartUpload", () =>
+        bucket().createMultipartUpload(key, putOptions),
+      );
+      return upload.uploadId;
+    },
+    async uploadPart(uploadId, partNumber, body) {
+      return call("UploadPart", () =>
+        bucket().resumeMultipartUpload(key, uploadId).uploadPart(partNumber, body, customerKey),
+      );
+    },
+    async complete(uploadId, parts) {
+      // Completing cannot be conditional on the binding, so check right before instead
+      if (hasConditions(conditions)) {
+        const object = await call("HeadObject", () => bucket().head(key));
+        assertConditions(conditions, object, location, true);
+      }
+
+      await call("CompleteMultipartUpload", () =>
+        bucket().resumeMultipartUpload(key, uploadId).complete(parts),
+      );
+    },
+    async abort(uploadId) {
+      await call("AbortMultipartUpload", () =>
+        bucket().resumeMultipartUpload(key, uploadId).abort(),
+      );
+    },
+    async stat() {
+      const object = await call("HeadObject", () => bucket().head(key));
+      if (!object) {
+        throw notFound(location);
+      }
+
+      return statFromObject(object);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { R2File, R2WriteData } from "./types.ts";
+
+/**
+ * Data to upload: either fully in memory or streamed chunk by chunk.
+ */
+export type UploadBody = Uint8Array | AsyncIterable<Uint8Array | string>;
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<Uint8Array | string> =>
+  typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+
+const isR2File = (value: unknown): value is R2File =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as R2File).stream === "function" &&
+  typeof (value as R2File).slice === "function";
+
+/**
+ * Normalizes the data accepted by {@link R2File.write} into an upload body,
+ * along with the content type it carries, if any.
+ *
+ * Streams, `Request`/`Response` bodies, blobs and other R2 files are not read
+ * into memory, so that they can be uploaded part by part.
+ */
+export function toUploadBody(data: R2WriteData): { body: UploadBody; type?: string } {
+  if (typeof data === "string") {
+    return { body: new TextEncoder().encode(data) };
+  }
+
+  if (data instanceof ArrayBuffer || data instanceof SharedArrayBuffer) {
+    return { body: new Uint8Array(data) };
+  }
+
+  if (ArrayBuffer.isView(data)) {
+    return { body: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) };
+  }
+
+  if (data instanceof Request || data instanceof Response) {
+    return {
+      body: data.body ?? new Uint8Array(0),
+      type: data.headers.get("content-type") || undefined,
+    };
+  }
+
+  if (data instanceof Blob || isR2File(data)) {
+    return { body: data.stream(), type: data.type || undefined };
+  }
+
+  // ReadableStream, Node.js Readable and any other async iterable
+  if (isAsyncIterable(data)) {
+    return { body: data };
+  }
+
+  throw new TypeError("Unsupported data type");
+}
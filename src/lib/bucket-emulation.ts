@@ -0,0 +1,261 @@
+import type {
+  R2Conditional,
+  R2HTTPMetadata,
+  R2Object,
+  R2ObjectBody,
+  R2Objects,
+  R2Range,
+} from "@cloudflare/workers-types";
+import { createHash } from "node:crypto";
+import { evaluateConditions } from "./conditions.ts";
+import { BlobIntegrityError, BlobInvalidRangeError, BlobNotFoundError } from "./errors.ts";
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * Everything known about a stored object but its content.
+ */
+export type ObjectRecord = {
+  key: string;
+  version: string;
+  size: number;
+  etag: string;
+  md5?: ArrayBuffer;
+  sha1?: ArrayBuffer;
+  sha256?: ArrayBuffer;
+  uploaded: Date;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+  storageClass: string;
+};
+
+/** The options of `put()` and `createMultipartUpload()` used by {@link R2BindingFile}. */
+export type PutOptions = {
+  httpMetadata?: R2HTTPMetadata;
+  customMetadata?: Record<string, string>;
+  storageClass?: string;
+  onlyIf?: R2Conditional;
+  /** Digests of the content, as hex strings or bytes, verified before storing it */
+  sha1?: ArrayBuffer | string;
+  sha256?: ArrayBuffer | string;
+};
+
+/** The checksums stored with an object. */
+export type RecordChecksums = Pick<ObjectRecord, "md5" | "sha1" | "sha256">;
+
+/** The options of `list()` used by {@link listBinding}. */
+export type ListOptions = {
+  prefix?: string;
+  cursor?: string;
+  delimiter?: string;
+  limit?: number;
+  startAfter?: string;
+};
+
+export type BucketBody = ConstructorParameters<typeof Response>[0];
+
+export const md5 = (data: Uint8Array) => {
+  const digest = createHash("md5").update(data).digest();
+  return digest.buffer.slice(digest.byteOffset, digest.byteOffset + digest.byteLength);
+};
+
+export const toHex = (buffer: ArrayBuffer) => Buffer.from(buffer).toString("hex");
+
+const toArrayBuffer = (bytes: Buffer) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+/**
+ * Computes the checksums stored with the content of `put()`, after verifying
+ * the digests given like the binding does.
+ */
+export function recordChecksums(key: string, data: Uint8Array, options?: PutOptions) {
+  const checksums: RecordChecksums = { md5: md5(data) };
+  for (const name of ["sha1", "sha256"] as const) {
+    const given = options?.[name];
+    if (given === undefined) continue;
+
+    const digest = createHash(name).update(data).digest();
+    const expected = typeof given === "string" ? Buffer.from(given, "hex") : Buffer.from(given);
+    if (!digest.equals(expected)) {
+      throw new BlobIntegrityError(
+        `The ${name.toUpperCase()} checksum you specified did not match what we received for "${key}"`,
+        {
+          key,
+          statusCode: 400,
+          algorithm: name.toUpperCase(),
+          expected: expected.toString("base64"),
+          actual: digest.toString("base64"),
+        },
+      );
+    }
+    checksums[name] = toArrayBuffer(digest);
+  }
+  return checksums;
+}
+
+export const readBody = async (body: BucketBody) =>
+  new Uint8Array(await new Response(body).arrayBuffer());
+
+/** Computes the ETag of a multipart upload: the MD5 of the part MD5s, then the number of parts. */
+export const multipartEtag = (partHashes: ArrayBuffer[]) =>
+  `${toHex(md5(Buffer.concat(partHashes.map((hash) => new Uint8Array(hash)))))}-${partHashes.length}`;
+
+/** Drops the options left `undefined`, as the binding does not report them. */
+export const definedOnly = <T extends object>(value: T = {} as T) =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+export const noSuchUpload = (key: string, uploadId: string) =>
+  new BlobNotFoundError(`The specified multipart upload does not exist: ${uploadId}`, {
+    key,
+    statusCode: 404,
+  });
+
+/**
+ * Maps the `onlyIf` option of the binding to the evaluation of preconditions
+ * shared with the S3 API.
+ */
+export const conditionsHold = (onlyIf: R2Conditional | undefined, record: ObjectRecord | null) =>
+  !onlyIf ||
+  !evaluateConditions(
+    {
+      ifMatch: onlyIf.etagMatches,
+      ifNoneMatch: onlyIf.etagDoesNotMatch,
+      ifModifiedSince: onlyIf.uploadedAfter,
+      ifUnmodifiedSince: onlyIf.uploadedBefore,
+    },
+    record && { etag: record.etag, lastModified: record.uploaded },
+  );
+
+export function toR2Object(record: ObjectRecord, range?: R2Range): R2Object {
+  return {
+    key: record.key,
+    version: record.version,
+    size: record.size,
+    etag: record.etag,
+    httpEtag: `"${record.etag}"`,
+    checksums: {
+      md5: record.md5,
+      sha1: record.sha1,
+      sha256: record.sha256,
+      toJSON: () =>
+        definedOnly({
+          md5: record.md5 && toHex(record.md5),
+          sha1: record.sha1 && toHex(record.sha1),
+          sha256: record.sha256 && toHex(record.sha256),
+        }),
+    },
+    uploaded: record.uploaded,
+    httpMetadata: { ...record.httpMetadata },
+    customMetadata: { ...record.customMetadata },
+    range,
+    storageClass: record.storageClass,
+    writeHttpMetadata(headers: Headers) {
+      const metadata = record.httpMetadata;
+      if (metadata.contentType) headers.set("content-type", metadata.contentType);
+      if (metadata.contentLanguage) headers.set("content-language", metadata.contentLanguage);
+      if (metadata.contentDisposition) {
+        headers.set("content-disposition", metadata.contentDisposition);
+      }
+      if (metadata.contentEncoding) headers.set("content-encoding", metadata.contentEncoding);
+      if (metadata.cacheControl) headers.set("cache-control", metadata.cacheControl);
+      if (metadata.cacheExpiry) headers.set("expires", metadata.cacheExpiry.toUTCString());
+    },
+  } as unknown as R2Object;
+}
+
+/**
+ * Resolves the range of a read into byte offsets, `end` being exclusive.
+ * Ranges starting past the end of a non-empty object are not satisfiable.
+ */
+export function bodyRange(
+  record: Pick<ObjectRecord, "key" | "size">,
+  range?: R2Range,
+): { begin: number; end: number } {
+  let begin = 0;
+  let end = record.size;
+  if (range && "suffix" in range) {
+    begin = Math.max(record.size - range.suffix, 0);
+  } else if (range) {
+    begin = range.offset ?? 0;
+    end = range.length === undefined ? record.size : Math.min(begin + range.length, record.size);
+  }
+
+  if (begin > 0 && begin >= record.size) {
+    throw new BlobInvalidRangeError(`The requested range is not satisfiable for "${record.key}"`, {
+      key: record.key,
+      statusCode: 416,
+    });
+  }
+  return { begin, end };
+}
+
+export function toR2ObjectBody(
+  record: ObjectRecord,
+  range: R2Range | undefined,
+  body: BucketBody,
+): R2ObjectBody {
+  const response = new Response(body);
+  return Object.assign(toR2Object(record, range), {
+    get body() {
+      return response.body;
+    },
+    get bodyUsed() {
+      return response.bodyUsed;
+    },
+    arrayBuffer: () => response.arrayBuffer(),
+    bytes: async () => new Uint8Array(await response.arrayBuffer()),
+    text: () => response.text(),
+    json: () => response.json(),
+    blob: () => response.blob(),
+  }) as unknown as R2ObjectBody;
+}
+
+/**
+ * Lists `keys` the way the binding does, grouping keys under common prefixes
+ * when a delimiter is given. The cursor is the last key consumed, so that
+ * pages resume right after it.
+ */
+export async function listKeys(
+  keys: Iterable<string>,
+  options: ListOptions | undefined,
+  load: (key: string) => Promise<R2Object | null>,
+): Promise<R2Objects> {
+  const prefix = options?.prefix ?? "";
+  const delimiter = options?.delimiter;
+  const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+  const after = [options?.cursor, options?.startAfter].reduce<string>(
+    (max, key) => (key !== undefined && key > max ? key : max),
+    "",
+  );
+
+  const candidates = [...keys].filter((key) => key.startsWith(prefix) && key > after).sort();
+  const objects: R2Object[] = [];
+  const delimitedPrefixes: string[] = [];
+  let last: string | undefined;
+  let index = 0;
+
+  while (index < candidates.length && objects.length + delimitedPrefixes.length < limit) {
+    const key = candidates[index]!;
+    const end = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+
+    if (end === -1) {
+      // Objects deleted since the keys were collected are skipped
+      const object = await load(key);
+      if (object) objects.push(object);
+      last = key;
+      index++;
+      continue;
+    }
+
+    // Every key under the common prefix is consumed at once, since they sort together
+    const common = key.slice(0, end + delimiter!.length);
+    delimitedPrefixes.push(common);
+    while (index < candidates.length && candidates[index]!.startsWith(common)) {
+      last = candidates[index++];
+    }
+  }
+
+  return index < candidates.length
+    ? { objects, delimitedPrefixes, truncated: true, cursor: last! }
+    : { objects, delimitedPrefixes, truncated: false };
+}
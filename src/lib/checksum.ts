@@ -0,0 +1,140 @@
+import type { R2ChecksumAlgorithm, R2ChecksumType } from "./types.ts";
+import { createHash } from "node:crypto";
+
+/** A checksum computed over the chunks of a body, in order. */
+export interface Checksum {
+  update(data: Uint8Array): void;
+  /** Resolves the checksum, base64 encoded as S3 reports it. */
+  digest(): string;
+}
+
+/** The members of the S3 commands carrying a checksum, e.g. `ChecksumCRC32`. */
+export type ChecksumField = `Checksum${R2ChecksumAlgorithm}`;
+
+export const checksumField = (algorithm: R2ChecksumAlgorithm): ChecksumField =>
+  `Checksum${algorithm}`;
+
+export const checksumHeader = (algorithm: R2ChecksumAlgorithm) =>
+  `x-amz-checksum-${algorithm.toLowerCase()}`;
+
+/**
+ * The type of checksum multipart uploads are created with. S3 can only
+ * combine the checksums of parts into one of the whole object for CRCs.
+ */
+export const multipartChecksumType = (algorithm: R2ChecksumAlgorithm): R2ChecksumType =>
+  algorithm.startsWith("CRC") ? "FULL_OBJECT" : "COMPOSITE";
+
+/** Builds the lookup table of a reflected CRC of up to 32 bits. */
+function crc32Table(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? (c >>> 1) ^ polynomial : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+const CRC32_TABLE = crc32Table(0xedb88320);
+const CRC32C_TABLE = crc32Table(0x82f63b78);
+
+function crc32(table: Uint32Array): Checksum {
+  let crc = 0xffffffff;
+  return {
+    update(data) {
+      for (const byte of data) {
+        crc = table[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+      }
+    },
+    digest() {
+      const bytes = Buffer.alloc(4);
+      bytes.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+      return bytes.toString("base64");
+    },
+  };
+}
+
+/**
+ * The CRC-64/NVME lookup table, as high and low 32-bit halves since
+ * bitwise operators truncate numbers to 32 bits.
+ */
+const CRC64_TABLE = (() => {
+  const high = new Uint32Array(256);
+  const low = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let h = 0;
+    let l = n;
+    for (let k = 0; k < 8; k++) {
+      const carry = l & 1;
+      l = ((l >>> 1) | ((h & 1) << 31)) >>> 0;
+      h = h >>> 1;
+      if (carry) {
+        h = (h ^ 0x9a6c9329) >>> 0;
+        l = (l ^ 0xac4bc9b5) >>> 0;
+      }
+    }
+    high[n] = h;
+    low[n] = l;
+  }
+  return { high, low };
+})();
+
+function crc64nvme(): Checksum {
+  let high = 0xffffffff;
+  let low = 0xffffffff;
+  return {
+    update(data) {
+      for (const byte of data) {
+        const index = (low ^ byte) & 0xff;
+        low = (((low >>> 8) | (high << 24)) ^ CRC64_TABLE.low[index]!) >>> 0;
+        high = ((high >>> 8) ^ CRC64_TABLE.high[index]!) >>> 0;
+      }
+    },
+    digest() {
+      const bytes = Buffer.alloc(8);
+      bytes.writeUInt32BE((high ^ 0xffffffff) >>> 0, 0);
+      bytes.writeUInt32BE((low ^ 0xffffffff) >>> 0, 4);
+      return bytes.toString("base64");
+    },
+  };
+}
+
+function hash(name: string): Checksum {
+  const digest = createHash(name);
+  return {
+    update: (data) => void digest.update(data),
+    digest: () => digest.digest("base64"),
+  };
+}
+
+export function createChecksum(algorithm: R2ChecksumAlgorithm): Checksum {
+  switch (algorithm) {
+    case "CRC32":
+      return crc32(CRC32_TABLE);
+    case "CRC32C":
+      return crc32(CRC32C_TABLE);
+    case "CRC64NVME":
+      return crc64nvme();
+    case "SHA1":
+      return hash("sha1");
+    case "SHA256":
+      return hash("sha256");
+  }
+}
+
+export function checksumOf(algorithm: R2ChecksumAlgorithm, data: Uint8Array): string {
+  const checksum = createChecksum(algorithm);
+  checksum.update(data);
+  return checksum.digest();
+}
+
+/**
+ * Computes the `COMPOSITE` checksum of a multipart upload: the checksum of
+ * the concatenated checksums of its parts, then the number of parts.
+ */
+export function compositeChecksum(algorithm: R2ChecksumAlgorithm, parts: string[]): string {
+  const digests = Buffer.concat(parts.map((part) => Buffer.from(part, "base64")));
+  return `${checksumOf(algorithm, digests)}-${parts.length}`;
+}
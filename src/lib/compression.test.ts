@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { Client } from "../runtime/node-compat.ts";
+import { MemoryClient } from "../runtime/memory.ts";
+import { BlobIntegrityError } from "./errors.ts";
+import { createTestServer } from "./test-server.ts";
+import type { R2TestServer } from "./types.ts";
+
+let server: R2TestServer;
+
+before(async () => {
+  server = await createTestServer();
+});
+
+after(() => server.close());
+
+const clients = {
+  "the S3 API": () => new Client({ ...server.options, bucket: "compression" }),
+  bindings: () => new MemoryClient(),
+};
+
+for (const [name, client] of Object.entries(clients)) {
+  test(`content that cannot be decompressed fails with a BlobIntegrityError over ${name}`, async () => {
+    const bucket = client();
+    await bucket.write("broken.txt", "not gzip at all", { contentEncoding: "gzip" });
+
+    await assert.rejects(bucket.file("broken.txt").text(), (error) => {
+      assert.ok(error instanceof BlobIntegrityError);
+      assert.equal(error.key, "broken.txt");
+      return true;
+    });
+    assert.equal(await bucket.file("broken.txt", { decompress: false }).text(), "not gzip at all");
+  });
+}
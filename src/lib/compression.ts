@@ -0,0 +1,242 @@
+import type { Stats } from "node:fs";
+import { once } from "node:events";
+import type { Transform } from "node:stream";
+import {
+  constants,
+  createBrotliCompress,
+  createBrotliDecompress,
+  createDeflate,
+  createGunzip,
+  createGzip,
+  createInflate,
+} from "node:zlib";
+import type { NetworkSink, R2Compression, R2Options } from "./types.ts";
+import { BlobIntegrityError, BlobInvalidRangeError, type BlobErrorLocation } from "./errors.ts";
+import { chunkBytes, type R2FileWriter } from "./writer.ts";
+
+const COMPRESSIONS: R2Compression[] = ["gzip", "br", "deflate"];
+
+/** The writers an upload can be compressed into, e.g. one encrypting the content. */
+type UploadSink = Pick<
+  R2FileWriter,
+  "start" | "write" | "ready" | "flush" | "end" | "stat" | "ref" | "unref"
+>;
+
+function createCompressor(compression: R2Compression): Transform {
+  switch (compression) {
+    case "gzip":
+      return createGzip();
+    case "deflate":
+      return createDeflate();
+    case "br":
+      // The default quality of 11 is meant for static assets and too slow to stream uploads
+      return createBrotliCompress({ params: { [constants.BROTLI_PARAM_QUALITY]: 6 } });
+  }
+}
+
+function createDecompressor(compression: R2Compression): Transform {
+  switch (compression) {
+    case "gzip":
+      return createGunzip();
+    case "deflate":
+      return createInflate();
+    case "br":
+      return createBrotliDecompress();
+  }
+}
+
+/**
+ * The compression of an object, from its Content-Encoding. Resolves to
+ * `undefined` for other encodings, which are read as they are stored.
+ */
+export function storedCompression(contentEncoding: string | undefined): R2Compression | undefined {
+  const encoding = contentEncoding?.trim().toLowerCase();
+  return COMPRESSIONS.find((compression) => compression === encoding);
+}
+
+/**
+ * The compression a read decodes, from the Content-Encoding of the object.
+ * Compressed content can only be decoded from its start, so ranged reads
+ * of it fail instead of returning encoded bytes, unless `decompress` is
+ * disabled and every read returns the bytes as they are stored.
+ */
+export function readCompression(
+  contentEncoding: string | undefined,
+  ranged: boolean,
+  options: R2Options | undefined,
+  location: BlobErrorLocation,
+): R2Compression | undefined {
+  if (options?.decompress === false) {
+    return undefined;
+  }
+  const compression = storedCompression(contentEncoding);
+  if (compression && ranged) {
+    throw new BlobInvalidRangeError(
+      `"${location.key}" is stored with the ${compression} Content-Encoding, which cannot be decoded from a range. Set \`decompress: false\` to read ranges of the encoded bytes`,
+      { ...location, statusCode: 416 },
+    );
+  }
+  return compression;
+}
+
+/**
+ * Decompresses the content of an object as it is read. Content that zlib
+ * cannot decode fails the stream with a {@link BlobIntegrityError}.
+ */
+export function decompressStream(
+  source: ReadableStream<Uint8Array>,
+  compression: R2Compression,
+  location: BlobErrorLocation,
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const zlib = createDecompressor(compression);
+  const corrupted = (error: unknown) =>
+    new BlobIntegrityError(
+      `"${location.key}" could not be decoded from its ${compression} Content-Encoding: the object is corrupted or truncated`,
+      { ...location, cause: error },
+    );
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+      start(controller) {
+        zlib.on("data", (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)));
+        zlib.on("error", (error) => controller.error(corrupted(error)));
+      },
+      async transform(chunk) {
+        try {
+          if (!zlib.write(chunk)) {
+            await once(zlib, "drain");
+          }
+        } catch (error) {
+          throw corrupted(error);
+        }
+      },
+      async flush() {
+        zlib.end();
+        try {
+          await once(zlib, "end");
+        } catch (error) {
+          throw corrupted(error);
+        }
+      },
+    }),
+  );
+}
+
+/**
+ * Compresses the content written to an upload as it streams through.
+ * The compressed content is written to the upload as zlib produces it,
+ * so `ready()` waits for both to catch up.
+ */
+export class CompressingWriter implements NetworkSink {
+  readonly #writer: UploadSink;
+  readonly #zlib: Transform;
+  readonly #finished: Promise<unknown>;
+  #error?: Error;
+  #written = 0;
+
+  constructor(writer: UploadSink, compression: R2Compression) {
+    this.#writer = writer;
+    this.#zlib = createCompressor(compression);
+    this.#zlib.on("data", (chunk: Buffer) => {
+      try {
+        this.#writer.write(chunk);
+      } catch (error) {
+        // The upload failed, which the next call reports
+        this.#zlib.destroy(error as Error);
+      }
+    });
+    this.#finished = once(this.#zlib, "end");
+    this.#finished.catch((error: Error) => {
+      this.#error = error;
+    });
+  }
+
+  start(options?: { highWaterMark?: number }): void {
+    this.#writer.start(options);
+  }
+
+  write(chunk: string | ArrayBufferView | ArrayBuffer | SharedArrayBuffer): number {
+    if (this.#error) {
+      throw this.#error;
+    }
+
+    const bytes = chunkBytes(chunk);
+    this.#zlib.write(bytes);
+    this.#written += bytes.byteLength;
+    return bytes.byteLength;
+  }
+
+  async ready(): Promise<void> {
+    if (this.#zlib.writableNeedDrain) {
+      await once(this.#zlib, "drain");
+    }
+    if (this.#error) {
+      throw this.#error;
+    }
+    await this.#writer.ready();
+  }
+
+  /**
+   * Waits for the compressed content produced so far to be uploaded. zlib
+   * keeps the content it is still compressing until more is written or the
+   * writer ends.
+   *
+   * @returns Number of compressed bytes committed since the previous flush
+   */
+  flush(): Promise<number> {
+    return this.#writer.flush();
+  }
+
+  /**
+   * Compresses the remaining content and completes the upload.
+   *
+   * @returns Total number of bytes written, before compression
+   */
+  async end(error?: Error): Promise<number> {
+    if (error) {
+      this.#zlib.destroy();
+      await this.#writer.end(error);
+      return 0;
+    }
+
+    this.#zlib.end();
+    try {
+      await this.#finished;
+    } catch (error) {
+      await this.#writer.end(error as Error);
+      throw error;
+    }
+    await this.#writer.end();
+    return this.#written;
+  }
+
+  stat(): Promise<Stats> {
+    return this.#writer.stat();
+  }
+
+  ref(): void {
+    this.#writer.ref();
+  }
+
+  unref(): void {
+    this.#writer.unref();
+  }
+}
+
+/**
+ * Creates the writer of an upload with `create`, compressing the content
+ * when the options ask for it. The compression is stored as the
+ * Content-Encoding of the object, which reads decompress.
+ */
+export function compressingWriter(
+  options: R2Options,
+  create: (options: R2Options) => UploadSink,
+): UploadSink | CompressingWriter {
+  if (!options.compress) {
+    return create(options);
+  }
+
+  return new CompressingWriter(
+    create({ ...options, contentEncoding: options.compress }),
+    options.compress,
+  );
+}
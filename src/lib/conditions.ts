@@ -0,0 +1,145 @@
+import type { R2Conditional } from "@cloudflare/workers-types";
+import type { BuildMiddleware, HandlerExecutionContext, MiddlewareStack } from "@smithy/types";
+import type { R2Conditions } from "./types.ts";
+
+/**
+ * Picks the preconditions out of a set of options, dropping unset ones.
+ */
+export function pickConditions(options?: R2Conditions): R2Conditions {
+  const conditions: R2Conditions = {};
+  if (options?.ifMatch !== undefined) conditions.ifMatch = options.ifMatch;
+  if (options?.ifNoneMatch !== undefined) conditions.ifNoneMatch = options.ifNoneMatch;
+  if (options?.ifModifiedSince !== undefined) conditions.ifModifiedSince = options.ifModifiedSince;
+  if (options?.ifUnmodifiedSince !== undefined) {
+    conditions.ifUnmodifiedSince = options.ifUnmodifiedSince;
+  }
+  return conditions;
+}
+
+/**
+ * Returns a copy of `options` without preconditions, so that they are not
+ * carried over to another object, e.g. the destination of a copy.
+ */
+export function withoutConditions<T extends R2Conditions>(options: T): T {
+  const rest = { ...options };
+  delete rest.ifMatch;
+  delete rest.ifNoneMatch;
+  delete rest.ifModifiedSince;
+  delete rest.ifUnmodifiedSince;
+  return rest;
+}
+
+export const hasConditions = (conditions: R2Conditions) => Object.keys(conditions).length > 0;
+
+/**
+ * Maps preconditions to the fields of the S3 GetObject and HeadObject commands.
+ */
+export const s3Conditions = (conditions: R2Conditions) => ({
+  IfMatch: conditions.ifMatch,
+  IfNoneMatch: conditions.ifNoneMatch,
+  IfModifiedSince: conditions.ifModifiedSince,
+  IfUnmodifiedSince: conditions.ifUnmodifiedSince,
+});
+
+/** The key of the handler context telling that a request was sent with preconditions. */
+const CONDITIONAL = "blobConditional";
+
+/**
+ * Tells whether {@link withConditionHeaders} added preconditions to the
+ * request, so that a failed attempt is not retried into a spurious 412.
+ */
+export const isConditionalRequest = (context: HandlerExecutionContext) =>
+  context[CONDITIONAL] === true;
+
+/** A command whose requests can be altered by middleware. */
+type Command<Input extends object, Output extends object> = {
+  middlewareStack: MiddlewareStack<Input, Output>;
+};
+
+/**
+ * Sends preconditions as headers, for commands whose input does not model
+ * all of them, such as PutObject and DeleteObject.
+ */
+export function withConditionHeaders<
+  Input extends object,
+  Output extends object,
+  C extends Command<Input, Output>,
+>(command: C & Command<Input, Output>, conditions: R2Conditions): C {
+  if (!hasConditions(conditions)) {
+    return command;
+  }
+
+  const headers: Record<string, string> = {};
+  if (conditions.ifMatch !== undefined) headers["if-match"] = conditions.ifMatch;
+  if (conditions.ifNoneMatch !== undefined) headers["if-none-match"] = conditions.ifNoneMatch;
+  if (conditions.ifModifiedSince !== undefined) {
+    headers["if-modified-since"] = conditions.ifModifiedSince.toUTCString();
+  }
+  if (conditions.ifUnmodifiedSince !== undefined) {
+    headers["if-unmodified-since"] = conditions.ifUnmodifiedSince.toUTCString();
+  }
+
+  const middleware: BuildMiddleware<Input, Output> = (next, context) => (args) => {
+    context[CONDITIONAL] = true;
+    const request = args.request as { headers?: Record<string, string> };
+    if (request.headers) {
+      Object.assign(request.headers, headers);
+    }
+    return next(args);
+  };
+  command.middlewareStack.add(middleware, {
+    step: "build",
+    name: "blobConditionHeadersMiddleware",
+  });
+  return command;
+}
+
+const stripQuotes = (etag: string) => etag.replace(/^(W\/)?"(.*)"$/, "$2");
+
+/**
+ * Maps preconditions to the `onlyIf` option of the R2 bucket binding.
+ */
+export function bindingConditions(conditions: R2Conditions): R2Conditional | undefined {
+  if (!hasConditions(conditions)) {
+    return undefined;
+  }
+
+  // The binding compares bare ETags, while stat() reports them quoted as in HTTP
+  return {
+    etagMatches: conditions.ifMatch && stripQuotes(conditions.ifMatch),
+    etagDoesNotMatch: conditions.ifNoneMatch && stripQuotes(conditions.ifNoneMatch),
+    uploadedAfter: conditions.ifModifiedSince,
+    uploadedBefore: conditions.ifUnmodifiedSince,
+  };
+}
+
+const etagMatches = (condition: string, etag: string) =>
+  condition === "*" ||
+  condition.split(",").some((candidate) => stripQuotes(candidate.trim()) === stripQuotes(etag));
+
+/**
+ * Evaluates preconditions against an object, for operations the R2 binding
+ * cannot make conditional. `object` is `null` when it does not exist.
+ *
+ * Resolves to `"precondition-failed"` when `ifMatch` or `ifUnmodifiedSince`
+ * fail, to `"not-modified"` when `ifNoneMatch` or `ifModifiedSince` fail,
+ * and to `undefined` when every precondition holds.
+ */
+export function evaluateConditions(
+  conditions: R2Conditions,
+  object: { etag: string; lastModified: Date } | null,
+): "precondition-failed" | "not-modified" | undefined {
+  if (conditions.ifMatch !== undefined) {
+    if (!object || !etagMatches(conditions.ifMatch, object.etag)) return "precondition-failed";
+  }
+  if (conditions.ifUnmodifiedSince !== undefined && object) {
+    if (object.lastModified > conditions.ifUnmodifiedSince) return "precondition-failed";
+  }
+  if (conditions.ifNoneMatch !== undefined && object) {
+    if (etagMatches(conditions.ifNoneMatch, object.etag)) return "not-modified";
+  }
+  if (conditions.ifModifiedSince !== undefined && object) {
+    if (object.lastModified <= conditions.ifModifiedSince) return "not-modified";
+  }
+  return undefined;
+}
@@ -0,0 +1,109 @@
+import type { R2Options } from "./types.ts";
+import { BlobConfigError } from "./errors.ts";
+
+/**
+ * Environment variables, or the `env` of a Workers request context.
+ */
+export type ConfigEnv = Record<string, unknown>;
+
+type ConfigKey =
+  | "accessKeyId"
+  | "secretAccessKey"
+  | "sessionToken"
+  | "bucket"
+  | "region"
+  | "endpoint";
+
+/** Prefixes of the variables read, from highest to lowest precedence. */
+const ENV_PREFIXES = ["R2_", "S3_", "AWS_"];
+
+const ENV_NAMES: Record<ConfigKey, string> = {
+  accessKeyId: "ACCESS_KEY_ID",
+  secretAccessKey: "SECRET_ACCESS_KEY",
+  sessionToken: "SESSION_TOKEN",
+  bucket: "BUCKET",
+  region: "REGION",
+  endpoint: "ENDPOINT",
+};
+
+let envProvider = (): ConfigEnv => globalThis.process?.env ?? {};
+
+/**
+ * Replaces where {@link resolveConfig} reads variables from by default, e.g.
+ * with the `env` of the current request on Cloudflare Workers.
+ */
+export function setConfigEnv(provider: () => ConfigEnv): void {
+  envProvider = provider;
+}
+
+/** The variable names a setting is read from, e.g. `R2_BUCKET, S3_BUCKET or AWS_BUCKET`. */
+const envNames = (key: ConfigKey) =>
+  ENV_PREFIXES.map((prefix) => prefix + ENV_NAMES[key])
+    .join(", ")
+    .replace(/, ([^,]+)$/, " or $1");
+
+function readEnv(env: ConfigEnv, key: ConfigKey): string | undefined {
+  for (const prefix of ENV_PREFIXES) {
+    const value = env[prefix + ENV_NAMES[key]];
+    if (typeof value === "string" && value !== "") {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fills the connection settings missing from `options` from the environment.
+ *
+ * Each setting is read from the first variable set among `R2_*`, `S3_*` and
+ * `AWS_*`, e.g. `R2_ACCESS_KEY_ID`, then `S3_ACCESS_KEY_ID`, then
+ * `AWS_ACCESS_KEY_ID`. Options passed explicitly always win.
+ *
+ * @example
+ *     // With R2_BUCKET=uploads
+ *     resolveConfig({ region: "auto" }); // { region: "auto", bucket: "uploads", ... }
+ */
+export function resolveConfig<T extends R2Options>(options?: T, env: ConfigEnv = envProvider()): T {
+  const resolved = { ...options } as T;
+  for (const key of Object.keys(ENV_NAMES) as ConfigKey[]) {
+    if (!resolved[key]) {
+      resolved[key] = readEnv(env, key) ?? resolved[key];
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Whether the endpoint is a `file://` URL, making the client store objects in
+ * a local directory instead of a bucket.
+ */
+export const isFileEndpoint = (endpoint?: string) => /^file:/i.test(endpoint ?? "");
+
+/**
+ * Fills in placeholder credentials when the endpoint is a local directory, so
+ * that the settings required by the S3 API are not required locally.
+ */
+export function withLocalCredentials<T extends R2Options>(options: T): T {
+  if (!isFileEndpoint(options.endpoint)) {
+    return options;
+  }
+  return {
+    ...options,
+    accessKeyId: options.accessKeyId || "local",
+    secretAccessKey: options.secretAccessKey || "local",
+  };
+}
+
+/**
+ * Throws a {@link BlobConfigError} naming every setting of `keys` missing
+ * from resolved options, and the variables it can be set with.
+ */
+export function requireConfig(options: R2Options, ...keys: ConfigKey[]): void {
+  const missing = keys.filter((key) => !options[key]);
+  if (missing.length === 0) {
+    return;
+  }
+
+  const details = missing.map((key) => `\`${key}\` (or ${envNames(key)})`).join(", ");
+  throw new BlobConfigError(`Missing configuration: ${details}`, missing);
+}
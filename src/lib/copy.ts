@@ -0,0 +1,190 @@
+import type { R2CopyOptions } from "./types.ts";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  HeadObjectCommand,
+  UploadPartCopyCommand,
+  type CompletedPart,
+  type ObjectCannedACL,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { s3ObjectHeaders } from "./metadata.ts";
+import { checksumField, multipartChecksumType } from "./checksum.ts";
+import { envelopeMetadata } from "./encryption.ts";
+import { s3CopySourceCustomerKey, s3CustomerKey } from "./sse.ts";
+
+/** Largest object CopyObject accepts in a single request. */
+const MAX_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_COPY_PART_SIZE = 512 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+const DEFAULT_QUEUE_SIZE = 5;
+
+type ObjectLocation = { bucket: string; key: string };
+
+/** Formats the `x-amz-copy-source` header value, keeping `/` unescaped in the key. */
+const copySource = ({ bucket, key }: ObjectLocation) =>
+  `${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`;
+
+/**
+ * Copies an object server-side, within or across buckets of the same account.
+ *
+ * Objects larger than 5 GiB, which CopyObject rejects, are copied with
+ * UploadPartCopy in parallel parts of `partSize` bytes.
+ */
+export async function copyObject(
+  client: S3Client,
+  source: ObjectLocation,
+  destination: ObjectLocation,
+  options?: R2CopyOptions,
+): Promise<void> {
+  // SSE-C objects are read with the key of the source and written with the key of the copy
+  const sourceKey = s3CopySourceCustomerKey(options);
+  const customerKey = s3CustomerKey(options);
+
+  const head = await client.send(
+    new HeadObjectCommand({
+      Bucket: source.bucket,
+      Key: source.key,
+      IfMatch: options?.sourceIfMatch,
+      SSECustomerAlgorithm: sourceKey.CopySourceSSECustomerAlgorithm,
+      SSECustomerKey: sourceKey.CopySourceSSECustomerKey,
+    }),
+  );
+
+  // Pin the copy to the version we just inspected, so that concurrent writes cannot be mixed in
+  const sourceIfMatch = options?.sourceIfMatch ?? head.ETag;
+  const replace = options?.metadataDirective === "REPLACE";
+  const algorithm = options?.checksum;
+  // The content is copied as is, so it must keep its encoding and encryption envelope
+  const replaced = replace && {
+    ...s3ObjectHeaders(options),
+    ContentEncoding: options?.contentEncoding ?? head.ContentEncoding,
+    Metadata: { ...options?.metadata, ...envelopeMetadata(head.Metadata) },
+  };
+
+  if ((head.ContentLength ?? 0) <= MAX_COPY_SIZE) {
+    await client.send(
+      new CopyObjectCommand({
+        Bucket: destination.bucket,
+        Key: destination.key,
+        CopySource: copySource(source),
+        CopySourceIfMatch: sourceIfMatch,
+        MetadataDirective: replace ? "REPLACE" : "COPY",
+        ...replaced,
+        ACL: options?.acl as ObjectCannedACL | undefined,
+        StorageClass: options?.storageClass,
+        ChecksumAlgorithm: algorithm,
+        ...customerKey,
+        ...sourceKey,
+      }),
+    );
+    return;
+  }
+
+  const size = head.ContentLength ?? 0;
+  const partSize = Math.max(
+    options?.partSize ?? DEFAULT_COPY_PART_SIZE,
+    Math.ceil(size / MAX_PARTS),
+    MIN_PART_SIZE,
+  );
+
+  // Multipart uploads never inherit metadata, so carry it over from the source unless replaced
+  const { UploadId } = await client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: destination.bucket,
+      Key: destination.key,
+      ...(replaced || {
+        ContentType: head.ContentType,
+        CacheControl: head.CacheControl,
+        ContentDisposition: head.ContentDisposition,
+        ContentEncoding: head.ContentEncoding,
+        ContentLanguage: head.ContentLanguage,
+        Expires: head.Expires,
+        Metadata: head.Metadata,
+      }),
+      ACL: options?.acl as ObjectCannedACL | undefined,
+      StorageClass: options?.storageClass,
+      ChecksumAlgorithm: algorithm,
+      ChecksumType: algorithm && multipartChecksumType(algorithm),
+      ...customerKey,
+    }),
+  );
+
+  try {
+    const parts: CompletedPart[] = [];
+    let nextOffset = 0;
+    let partNumber = 0;
+    let failed = false;
+
+    const worker = async () => {
+      while (!failed && nextOffset < size) {
+        const offset = nextOffset;
+        const number = ++partNumber;
+        nextOffset += partSize;
+
+        const response = await client
+          .send(
+            new UploadPartCopyCommand({
+              Bucket: destination.bucket,
+              Key: destination.key,
+              UploadId,
+              PartNumber: number,
+              CopySource: copySource(source),
+              CopySourceIfMatch: sourceIfMatch,
+              CopySourceRange: `bytes=${offset}-${Math.min(offset + partSize, size) - 1}`,
+              ...customerKey,
+              ...sourceKey,
+            }),
+          )
+          .catch((error) => {
+            failed = true;
+            throw error;
+          });
+
+        parts.push({
+          PartNumber: number,
+          ETag: response.CopyPartResult?.ETag,
+          // S3 computes the checksums of copied parts, for the algorithm of the upload
+          ...(algorithm && {
+            [checksumField(algorithm)]: response.CopyPartResult?.[checksumField(algorithm)],
+          }),
+        });
+      }
+    };
+
+    // Let every worker settle before aborting, so that no part is uploaded after the abort
+    const results = await Promise.allSettled(
+      Array.from({ length: options?.queueSize ?? DEFAULT_QUEUE_SIZE }, () => worker()),
+    );
+    const rejected = results.find((r) => r.status === "rejected");
+    if (rejected) {
+      throw rejected.reason;
+    }
+
+    await client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: destination.bucket,
+        Key: destination.key,
+        UploadId,
+        MultipartUpload: {
+          Parts: parts.sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0)),
+        },
+        ...customerKey,
+      }),
+    );
+  } catch (error) {
+    await client
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: destination.bucket,
+          Key: destination.key,
+          UploadId,
+        }),
+      )
+      .catch(() => {});
+    throw error;
+  }
+}
@@ -1,15 +1,136 @@
 import type { R2Options } from "./types.ts";
 import { S3Client } from "@aws-sdk/client-s3";
+import { retryPolicy, withRetry } from "./retry.ts";
+import { withBlobErrors } from "./errors.ts";
+import { requireConfig, resolveConfig } from "./config.ts";
+import { isConditionalRequest } from "./conditions.ts";
+
+const DEFAULT_MAX_SOCKETS = 50;
 
 export const createClient = (options?: R2Options) => {
-  return new S3Client({
-    endpoint: options?.endpoint ?? process.env.R2_ENDPOINT,
-    region: "auto",
-    forcePathStyle: options?.virtualHostedStyle ?? true,
-    credentials: {
-      accessKeyId: options?.accessKeyId ?? "",
-      secretAccessKey: options?.secretAccessKey ?? "",
-      sessionToken: options?.sessionToken,
+  const config = resolveConfig(options);
+  // AWS endpoints can be derived from the region, other services need an explicit endpoint
+  requireConfig(config, ...(config.region ? [] : ["endpoint" as const]));
+  // Without static keys, the SDK resolves credentials from its default chain:
+  // shared profiles, web identity (IRSA), container and instance metadata
+  if (config.accessKeyId || config.secretAccessKey) {
+    requireConfig(config, "accessKeyId", "secretAccessKey");
+  }
+
+  const keepAlive = config.keepAlive ?? true;
+  const maxSockets = config.maxSockets ?? DEFAULT_MAX_SOCKETS;
+  const client = new S3Client({
+    endpoint: config.endpoint,
+    region: config.region ?? "auto",
+    forcePathStyle: config.virtualHostedStyle ?? true,
+    credentials: config.accessKeyId
+      ? {
+          accessKeyId: config.accessKeyId,
+          secretAccessKey: config.secretAccessKey!,
+          sessionToken: config.sessionToken,
+        }
+      : undefined,
+    // Retries are handled by our own middleware below
+    maxAttempts: 1,
+    // Agent options of the Node.js handler, other runtimes ignore them
+    requestHandler: {
+      httpAgent: { keepAlive, maxSockets },
+      httpsAgent: { keepAlive, maxSockets },
     },
   });
+
+  const policy = retryPolicy(config.retry);
+  client.middlewareStack.add(
+    (next, context) => (args) => {
+      const input = args.input as { IfMatch?: string; IfNoneMatch?: string };
+      return withRetry(
+        () => next(args),
+        policy,
+        context.commandName?.replace(/Command$/, "") ?? "Unknown",
+        Boolean(input.IfMatch || input.IfNoneMatch) || isConditionalRequest(context),
+      );
+    },
+    { step: "finalizeRequest", priority: "high", name: "blobRetryMiddleware" },
+  );
+
+  // Translate errors once retries are exhausted, so that retries still see the SDK errors
+  client.middlewareStack.add(
+    (next) => (args) => {
+      const input = args.input as { Bucket?: string; Key?: string };
+      return withBlobErrors({ bucket: input.Bucket, key: input.Key }, () => next(args));
+    },
+    { step: "initialize", priority: "high", name: "blobErrorMiddleware" },
+  );
+
+  return client;
+};
+
+const functionIds = new WeakMap<object, number>();
+let nextFunctionId = 1;
+
+/** Identifies retry hooks by reference, since functions cannot be serialized. */
+const functionId = (fn: unknown) => {
+  if (typeof fn !== "function") return undefined;
+  if (!functionIds.has(fn)) functionIds.set(fn, nextFunctionId++);
+  return functionIds.get(fn);
 };
+
+/**
+ * The options that shape an S3 client, as opposed to the per-object options
+ * such as `type` or `partSize` that requests carry themselves.
+ */
+function clientKey(options?: R2Options): string {
+  options = resolveConfig(options);
+  const retry =
+    typeof options?.retry === "object"
+      ? {
+          ...options.retry,
+          shouldRetry: functionId(options.retry.shouldRetry),
+          onRetry: functionId(options.retry.onRetry),
+        }
+      : options?.retry;
+
+  return JSON.stringify([
+    options?.endpoint,
+    options?.region,
+    options?.accessKeyId,
+    options?.secretAccessKey,
+    options?.sessionToken,
+    options?.virtualHostedStyle,
+    options?.keepAlive,
+    options?.maxSockets,
+    retry,
+  ]);
+}
+
+/**
+ * Reuses one S3 client, with its connection pool, for every file sharing an
+ * endpoint, credentials and transport options.
+ */
+export class ClientPool {
+  readonly #clients = new Map<string, S3Client>();
+
+  get(options?: R2Options): S3Client {
+    const key = clientKey(options);
+    let client = this.#clients.get(key);
+    if (!client) {
+      client = createClient(options);
+      this.#clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Destroys every client, closing their idle connections. The pool stays
+   * usable and creates new clients on demand.
+   */
+  close(): void {
+    for (const client of this.#clients.values()) {
+      client.destroy();
+    }
+    this.#clients.clear();
+  }
+}
+
+/** The pool of the static `Client` methods and of files created without a client. */
+export const sharedPool = new ClientPool();
@@ -0,0 +1,30 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { bindingDeleteChunk, deleteMany } from "./delete.ts";
+import { BlobError } from "./errors.ts";
+
+test("binding deletes that fail are reported as BlobErrors", async () => {
+  const bucket = {
+    delete: async () => {
+      throw Object.assign(new Error("delete: We encountered an internal error (10001)"), {
+        code: 10001,
+      });
+    },
+  } as unknown as R2Bucket;
+  const deleteChunk = bindingDeleteChunk(() => bucket, { bucket: "deletes", retry: 0 });
+
+  await assert.rejects(deleteChunk(["a.txt"]), (error) => {
+    assert.ok(error instanceof BlobError);
+    assert.equal(error.bucket, "deletes");
+    return true;
+  });
+  const { errors } = await deleteMany(["a.txt", "b.txt"], deleteChunk);
+  assert.deepEqual(
+    errors.map((error) => [error.key, error.code]),
+    [
+      ["a.txt", "BlobError"],
+      ["b.txt", "BlobError"],
+    ],
+  );
+});
@@ -0,0 +1,144 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type {
+  R2DeleteManyOptions,
+  R2DeleteManyResult,
+  R2DeletePrefixOptions,
+  R2ListEntry,
+  R2Options,
+} from "./types.ts";
+import { DeleteObjectsCommand, type S3Client } from "@aws-sdk/client-s3";
+import { retryPolicy, withRetry } from "./retry.ts";
+import { withBlobErrors } from "./errors.ts";
+
+/** Largest number of keys a single DeleteObjects request accepts. */
+const MAX_KEYS_PER_REQUEST = 1000;
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Deletes one chunk of at most 1000 keys, reporting the outcome of each key.
+ */
+export type DeleteChunk = (keys: string[]) => Promise<R2DeleteManyResult>;
+
+/**
+ * Creates a {@link DeleteChunk} backed by the S3 DeleteObjects API.
+ */
+export function s3DeleteChunk(client: S3Client, bucket: string): DeleteChunk {
+  return async (keys) => {
+    const response = await client.send(
+      new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: {
+          Objects: keys.map((key) => ({ Key: key })),
+          Quiet: false,
+        },
+      }),
+    );
+
+    return {
+      deleted: response.Deleted?.map((d) => d.Key ?? "") ?? [],
+      errors:
+        response.Errors?.map((e) => ({
+          key: e.Key ?? "",
+          code: e.Code,
+          message: e.Message,
+        })) ?? [],
+    };
+  };
+}
+
+/**
+ * Creates a {@link DeleteChunk} backed by the R2 bucket binding of Cloudflare Workers.
+ * Bindings delete a chunk atomically, so a failure is reported for every key of it.
+ */
+export function bindingDeleteChunk(
+  bucket: () => R2Bucket,
+  options?: Pick<R2Options, "bucket" | "retry">,
+): DeleteChunk {
+  const policy = retryPolicy(options?.retry);
+  return async (keys) => {
+    await withBlobErrors({ bucket: options?.bucket }, () =>
+      withRetry(() => bucket().delete(keys), policy, "DeleteObjects"),
+    );
+    return { deleted: keys, errors: [] };
+  };
+}
+
+/**
+ * Deletes every key, in chunks of up to 1000 keys with up to `concurrency`
+ * chunks in flight. Keys may come from an async iterable, such as a listing,
+ * in which case deletion starts before the listing is exhausted.
+ *
+ * A chunk that fails as a whole reports its error for each of its keys
+ * instead of rejecting, so that the other chunks are still deleted.
+ */
+export async function deleteMany(
+  keys: Iterable<string> | AsyncIterable<string>,
+  deleteChunk: DeleteChunk,
+  options?: R2DeleteManyOptions,
+): Promise<R2DeleteManyResult> {
+  const concurrency = Math.max(options?.concurrency ?? DEFAULT_CONCURRENCY, 1);
+  const result: R2DeleteManyResult = { deleted: [], errors: [] };
+  const inFlight = new Set<Promise<void>>();
+
+  const dispatch = async (chunk: string[]) => {
+    const task = deleteChunk(chunk)
+      .then(
+        ({ deleted, errors }) => {
+          result.deleted.push(...deleted);
+          result.errors.push(...errors);
+        },
+        (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          const code = error instanceof Error ? error.name : undefined;
+          result.errors.push(...chunk.map((key) => ({ key, code, message })));
+        },
+      )
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+
+    while (inFlight.size >= concurrency) {
+      await Promise.race(inFlight);
+    }
+  };
+
+  let chunk: string[] = [];
+  for await (const key of keys) {
+    chunk.push(key);
+    if (chunk.length === MAX_KEYS_PER_REQUEST) {
+      await dispatch(chunk);
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) {
+    await dispatch(chunk);
+  }
+
+  await Promise.all(inFlight);
+  return result;
+}
+
+/**
+ * Deletes every object yielded by a listing, or only collects their keys when
+ * `dryRun` is set.
+ */
+export async function deleteListed(
+  entries: AsyncIterable<R2ListEntry>,
+  deleteChunk: DeleteChunk,
+  options?: R2DeletePrefixOptions,
+): Promise<R2DeleteManyResult> {
+  async function* keys() {
+    for await (const entry of entries) {
+      if ("key" in entry) yield entry.key;
+    }
+  }
+
+  if (options?.dryRun) {
+    const deleted: string[] = [];
+    for await (const key of keys()) {
+      deleted.push(key);
+    }
+    return { deleted, errors: [] };
+  }
+
+  return deleteMany(keys(), deleteChunk, options);
+}
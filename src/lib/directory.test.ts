@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import { pathToFileURL } from "node:url";
+import { Client } from "../runtime/node-compat.ts";
+import { type DirectorySource, R2PrefixDirectory } from "./directory.ts";
+import { createTestServer } from "./test-server.ts";
+import type { R2TestServer } from "./types.ts";
+
+let server: R2TestServer;
+let root: string;
+
+before(async () => {
+  server = await createTestServer();
+  root = await mkdtemp(join(tmpdir(), "blob-"));
+});
+
+after(async () => {
+  await server.close();
+  await rm(root, { recursive: true, force: true });
+});
+
+const sources = {
+  // Directory markers are stored as keys ending with `/`
+  "with markers": () => new Client({ ...server.options, bucket: "directory" }),
+  // Keys are files, which cannot end with `/`
+  "without markers": () => new Client({ endpoint: pathToFileURL(root).href, bucket: "directory" }),
+};
+
+for (const [name, client] of Object.entries(sources)) {
+  describe(`directories ${name}`, () => {
+    test("tree() sums the files of nested folders, leaving markers out", async () => {
+      const bucket = client();
+      const docs = await bucket.dir("tree").mkdir("docs");
+      await docs.file("a.txt").write("aa");
+      await docs.file("guides/b.txt").write("bbb");
+      await bucket.dir("tree").file("c.txt").write("c");
+
+      const tree = await bucket.dir("tree").tree();
+      assert.equal(tree.fileCount, 3);
+      assert.equal(tree.size, 6);
+      assert.deepEqual(
+        tree.files.map((file) => file.key),
+        ["tree/c.txt"],
+      );
+      const [folder] = tree.folders;
+      assert.equal(folder?.prefix, "tree/docs/");
+      assert.equal(folder?.fileCount, 2);
+      assert.deepEqual(
+        folder?.folders.map((child) => [child.prefix, child.size]),
+        [["tree/docs/guides/", 3]],
+      );
+    });
+
+    test("rm() removes an empty directory and refuses one with files", async () => {
+      const bucket = client();
+      const empty = await bucket.dir("rm").mkdir("empty");
+      await empty.rm();
+      assert.deepEqual(await bucket.dir("rm").readdir(), []);
+
+      const full = await bucket.dir("rm").mkdir("full");
+      await full.file("a.txt").write("a");
+      await full.file("b.txt").write("b");
+      await assert.rejects(full.rm(), /is not empty/);
+
+      const { deleted } = await full.rm({ recursive: true });
+      assert.deepEqual(
+        deleted.filter((key) => !key.endsWith("/")),
+        ["rm/full/a.txt", "rm/full/b.txt"],
+      );
+      assert.equal((await full.tree()).fileCount, 0);
+    });
+  });
+}
+
+test("rm() refuses a directory whose listing is truncated after its marker", async () => {
+  // A listing that stops at the marker, whichever order the keys after it come in
+  const source = {
+    list: async () => ({ contents: [{ key: "dir/" }], isTruncated: true }),
+    markers: true,
+  } as unknown as DirectorySource;
+  await assert.rejects(new R2PrefixDirectory("dir", source).rm(), /is not empty/);
+});
@@ -0,0 +1,173 @@
+import type {
+  R2DeleteManyResult,
+  R2Directory,
+  R2DirectoryRmOptions,
+  R2DirectoryTree,
+  R2File,
+  R2ListEntry,
+  R2ListIterateOptions,
+  R2ListObjectContent,
+  R2ListObjectsOptions,
+  R2ListObjectsResponse,
+  R2Options,
+} from "./types.ts";
+import { type DeleteChunk, deleteListed, deleteMany } from "./delete.ts";
+import { paginate } from "./list.ts";
+
+const DELIMITER = "/";
+
+/**
+ * The operations of a client a directory is built on, so that it works the
+ * same over the S3 API and bindings.
+ */
+export type DirectorySource = {
+  /** Lists a single page of the bucket */
+  list: (input: R2ListObjectsOptions) => Promise<R2ListObjectsResponse>;
+  /** Creates the file of a key */
+  file: (key: string, options?: R2Options) => R2File;
+  deleteChunk: DeleteChunk;
+  /** Whether keys ending with `/` can be stored, which they cannot on `file://` endpoints */
+  markers: boolean;
+};
+
+/** Normalizes a directory path to a prefix ending with `/`, or `""` for the root. */
+const toPrefix = (path: string) => {
+  const trimmed = path.replace(/^\/+/, "");
+  return !trimmed || trimmed.endsWith(DELIMITER) ? trimmed : `${trimmed}${DELIMITER}`;
+};
+
+const isMarker = (key: string) => key.endsWith(DELIMITER);
+
+/**
+ * A directory over delimiter listings, see {@link R2Directory}.
+ */
+export class R2PrefixDirectory implements R2Directory {
+  readonly prefix: string;
+  readonly #source: DirectorySource;
+
+  constructor(path: string, source: DirectorySource) {
+    this.prefix = toPrefix(path);
+    this.#source = source;
+  }
+
+  file(path: string, options?: R2Options): R2File {
+    return this.#source.file(`${this.prefix}${path.replace(/^\/+/, "")}`, options);
+  }
+
+  dir(path: string): R2Directory {
+    return new R2PrefixDirectory(`${this.prefix}${toPrefix(path)}`, this.#source);
+  }
+
+  async readdir(options?: Pick<R2ListIterateOptions, "signal">): Promise<R2ListEntry[]> {
+    const entries: R2ListEntry[] = [];
+    for await (const entry of paginate(this.#source.list, {
+      prefix: this.prefix,
+      delimiter: DELIMITER,
+      signal: options?.signal,
+    })) {
+      if ("key" in entry && entry.key === this.prefix) continue;
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  async *walk(
+    options?: Pick<R2ListIterateOptions, "limit" | "signal">,
+  ): AsyncGenerator<R2ListObjectContent> {
+    let remaining = options?.limit ?? Infinity;
+    for await (const entry of paginate(this.#source.list, {
+      prefix: this.prefix,
+      signal: options?.signal,
+    })) {
+      if (remaining <= 0) return;
+      if (!("key" in entry) || isMarker(entry.key)) continue;
+      yield entry;
+      remaining--;
+    }
+  }
+
+  async tree(options?: Pick<R2ListIterateOptions, "signal">): Promise<R2DirectoryTree> {
+    const root: R2DirectoryTree = {
+      prefix: this.prefix,
+      size: 0,
+      fileCount: 0,
+      files: [],
+      folders: [],
+    };
+    const nodes = new Map([[this.prefix, root]]);
+
+    // A flat listing is a single pass over the keys, instead of a listing per directory
+    for await (const entry of paginate(this.#source.list, {
+      prefix: this.prefix,
+      signal: options?.signal,
+    })) {
+      if (!("key" in entry)) continue;
+
+      const path = [root];
+      let node = root;
+      let end = entry.key.indexOf(DELIMITER, this.prefix.length);
+      while (end !== -1) {
+        const prefix = entry.key.slice(0, end + DELIMITER.length);
+        let child = nodes.get(prefix);
+        if (!child) {
+          child = { prefix, size: 0, fileCount: 0, files: [], folders: [] };
+          nodes.set(prefix, child);
+          node.folders.push(child);
+        }
+        node = child;
+        path.push(node);
+        end = entry.key.indexOf(DELIMITER, end + DELIMITER.length);
+      }
+
+      if (isMarker(entry.key)) continue;
+      node.files.push(entry);
+      for (const ancestor of path) {
+        ancestor.size += entry.size ?? 0;
+        ancestor.fileCount++;
+      }
+    }
+
+    return root;
+  }
+
+  async mkdir(path?: string): Promise<R2Directory> {
+    const directory = path ? this.dir(path) : this;
+    if (!directory.prefix) {
+      throw new TypeError("The root of the bucket cannot be created");
+    }
+    if (!this.#source.markers) {
+      return directory;
+    }
+    // A marker must stay empty to be recognized, whatever the defaults of the client
+    await this.#source
+      .file(directory.prefix, { compress: undefined, encryption: undefined })
+      .write("");
+    return directory;
+  }
+
+  async rm(options?: R2DirectoryRmOptions): Promise<R2DeleteManyResult> {
+    if (!this.prefix) {
+      // Guard against wiping the whole bucket by accident
+      throw new TypeError("rm() cannot remove the root of the bucket, use deletePrefix()");
+    }
+
+    if (options?.recursive) {
+      return deleteListed(
+        paginate(this.#source.list, { prefix: this.prefix }),
+        this.#source.deleteChunk,
+        options,
+      );
+    }
+
+    // The marker and one more key are enough to tell, and a truncated listing has more
+    const page = await this.#source.list({ prefix: this.prefix, maxKeys: 2 });
+    if (page.isTruncated || page.contents?.some((object) => object.key !== this.prefix)) {
+      throw new Error(`"${this.prefix}" is not empty, use rm({ recursive: true })`);
+    }
+    if (!this.#source.markers) {
+      // An empty directory has nothing left to delete
+      return { deleted: [], errors: [] };
+    }
+    return deleteMany([this.prefix], this.#source.deleteChunk, options);
+  }
+}
@@ -0,0 +1,13 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryClient } from "../runtime/memory.ts";
+
+test("ending an encrypting writer twice seals a single last chunk", async () => {
+  const bucket = new MemoryClient({ encryption: { key: new Uint8Array(32) } });
+  const writer = bucket.file("secret.txt").writer();
+  writer.write("Hello World");
+
+  assert.equal(await writer.end(), 11);
+  assert.equal(await writer.end(), 11);
+  assert.equal(await bucket.file("secret.txt").text(), "Hello World");
+});
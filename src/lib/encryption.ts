@@ -0,0 +1,467 @@
+import type { Stats } from "node:fs";
+import type { NetworkSink, R2EncryptionOptions, R2Options, R2Stats } from "./types.ts";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { type BlobErrorLocation, BlobConfigError, BlobIntegrityError } from "./errors.ts";
+import type { ResolvedRange } from "./range.ts";
+import { chunkBytes, type R2FileWriter } from "./writer.ts";
+
+const CIPHER = "aes-256-gcm";
+/** Identifies the layout below, so that it can evolve without breaking stored objects. */
+const FORMAT = "AES256GCM-CHUNKED-1";
+const KEY_SIZE = 32;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/** The metadata keys describing the envelope of an encrypted object. */
+const METADATA = {
+  format: "blob-encryption",
+  key: "blob-encryption-key",
+  keyId: "blob-encryption-key-id",
+  iv: "blob-encryption-iv",
+  chunkSize: "blob-encryption-chunk-size",
+} as const;
+
+function keyEncryptionKey(options: R2EncryptionOptions): Buffer {
+  const key =
+    typeof options.key === "string"
+      ? Buffer.from(options.key, "base64")
+      : Buffer.from(options.key.buffer, options.key.byteOffset, options.key.byteLength);
+  if (key.byteLength !== KEY_SIZE) {
+    throw new TypeError(`The encryption key must be ${KEY_SIZE} bytes, got ${key.byteLength}`);
+  }
+  return key;
+}
+
+const isEncrypted = (metadata: Record<string, string> | undefined) =>
+  metadata?.[METADATA.format] !== undefined;
+
+/**
+ * The data key of an object and the layout of its content: the plaintext is
+ * split in chunks of `chunkSize` bytes, each encrypted separately and
+ * followed by its tag. Chunks are authenticated with their index and whether
+ * they are the last one, so that they cannot be reordered or truncated.
+ */
+export class Envelope {
+  readonly chunkSize: number;
+  readonly #dataKey: Buffer;
+  readonly #iv: Buffer;
+
+  constructor(dataKey: Buffer, iv: Buffer, chunkSize: number) {
+    this.#dataKey = dataKey;
+    this.#iv = iv;
+    this.chunkSize = chunkSize;
+  }
+
+  /** The size of a full chunk once encrypted. */
+  get sealedChunkSize(): number {
+    return this.chunkSize + TAG_SIZE;
+  }
+
+  /** The size of the plaintext of an object of `size` encrypted bytes. */
+  plaintextSize(size: number): number {
+    return size - Math.ceil(size / this.sealedChunkSize) * TAG_SIZE;
+  }
+
+  encrypt(index: number, plaintext: Uint8Array, last: boolean): Buffer {
+    const cipher = createCipheriv(CIPHER, this.#dataKey, this.#chunkIv(index));
+    cipher.setAAD(chunkAad(index, last));
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  decrypt(index: number, sealed: Uint8Array, last: boolean, location: BlobErrorLocation): Buffer {
+    try {
+      const decipher = createDecipheriv(CIPHER, this.#dataKey, this.#chunkIv(index));
+      decipher.setAAD(chunkAad(index, last));
+      decipher.setAuthTag(sealed.subarray(sealed.byteLength - TAG_SIZE));
+      return Buffer.concat([
+        decipher.update(sealed.subarray(0, sealed.byteLength - TAG_SIZE)),
+        decipher.final(),
+      ]);
+    } catch (error) {
+      throw new BlobIntegrityError(
+        `Chunk ${index} of "${location.key}" could not be decrypted: the object is corrupted or truncated`,
+        { ...location, algorithm: "AES-256-GCM", cause: error },
+      );
+    }
+  }
+
+  /** Derives the IV of a chunk from the IV of the object, which is random per data key. */
+  #chunkIv(index: number): Buffer {
+    const iv = Buffer.from(this.#iv);
+    iv.writeUInt32BE((iv.readUInt32BE(IV_SIZE - 4) ^ index) >>> 0, IV_SIZE - 4);
+    return iv;
+  }
+}
+
+function chunkAad(index: number, last: boolean): Buffer {
+  const aad = Buffer.alloc(5);
+  aad.writeUInt32BE(index);
+  aad[4] = last ? 1 : 0;
+  return aad;
+}
+
+/**
+ * Creates the envelope of a new object, with the metadata to store with it.
+ */
+export function sealEnvelope(options: R2EncryptionOptions): {
+  envelope: Envelope;
+  metadata: Record<string, string>;
+} {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new RangeError(`Invalid encryption chunk size: ${chunkSize}`);
+  }
+
+  const dataKey = randomBytes(KEY_SIZE);
+  const iv = randomBytes(IV_SIZE);
+  const wrapIv = randomBytes(IV_SIZE);
+  const cipher = createCipheriv(CIPHER, keyEncryptionKey(options), wrapIv);
+  const wrapped = Buffer.concat([
+    wrapIv,
+    cipher.update(dataKey),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  return {
+    envelope: new Envelope(dataKey, iv, chunkSize),
+    metadata: {
+      [METADATA.format]: FORMAT,
+      [METADATA.key]: wrapped.toString("base64"),
+      ...(options.keyId !== undefined && { [METADATA.keyId]: options.keyId }),
+      [METADATA.iv]: iv.toString("base64"),
+      [METADATA.chunkSize]: String(chunkSize),
+    },
+  };
+}
+
+/**
+ * Reads the envelope of an object from its metadata, unwrapping its data key.
+ * Resolves to `undefined` for objects stored without encryption.
+ */
+export function openEnvelope(
+  metadata: Record<string, string> | undefined,
+  options: R2EncryptionOptions | undefined,
+  location: BlobErrorLocation,
+): Envelope | undefined {
+  if (!metadata || !isEncrypted(metadata)) {
+    return undefined;
+  }
+  if (metadata[METADATA.format] !== FORMAT) {
+    throw new BlobConfigError(
+      `"${location.key}" is encrypted with an unsupported format: ${metadata[METADATA.format]}`,
+      [],
+    );
+  }
+  if (!options) {
+    throw new BlobConfigError(
+      `"${location.key}" is encrypted, set the \`encryption\` option to read it`,
+      ["encryption"],
+    );
+  }
+  const keyId = metadata[METADATA.keyId];
+  if (keyId !== undefined && options.keyId !== undefined && keyId !== options.keyId) {
+    throw new BlobConfigError(
+      `"${location.key}" is encrypted with the key "${keyId}", not "${options.keyId}"`,
+      ["encryption"],
+    );
+  }
+
+  const wrapped = Buffer.from(metadata[METADATA.key] ?? "", "base64");
+  let dataKey: Buffer;
+  try {
+    const decipher = createDecipheriv(
+      CIPHER,
+      keyEncryptionKey(options),
+      wrapped.subarray(0, IV_SIZE),
+    );
+    decipher.setAuthTag(wrapped.subarray(wrapped.byteLength - TAG_SIZE));
+    dataKey = Buffer.concat([
+      decipher.update(wrapped.subarray(IV_SIZE, wrapped.byteLength - TAG_SIZE)),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    if (error instanceof TypeError) throw error;
+    throw new BlobIntegrityError(
+      `The data key of "${location.key}" could not be unwrapped: the encryption key is wrong or the metadata was altered`,
+      { ...location, algorithm: "AES-256-GCM", cause: error },
+    );
+  }
+
+  return new Envelope(
+    dataKey,
+    Buffer.from(metadata[METADATA.iv] ?? "", "base64"),
+    Number(metadata[METADATA.chunkSize]),
+  );
+}
+
+/**
+ * Reports the size of the plaintext of encrypted objects, the size of the
+ * object being that of its chunks and tags.
+ */
+export function plaintextStats<T extends R2Stats>(stats: T): T {
+  if (isEncrypted(stats.metadata)) {
+    const sealedChunkSize = Number(stats.metadata[METADATA.chunkSize]) + TAG_SIZE;
+    stats.size -= Math.ceil(stats.size / sealedChunkSize) * TAG_SIZE;
+  }
+  return stats;
+}
+
+/**
+ * The chunks of an encrypted object that a read spans, and the part of
+ * their plaintext it selects.
+ */
+export type ChunkWindow = {
+  /** The index of the first chunk read */
+  first: number;
+  /** The index of the last chunk of the object */
+  last: number;
+  /** The number of plaintext bytes to skip in the first chunk */
+  skip: number;
+  /** The number of plaintext bytes selected */
+  length: number;
+};
+
+/**
+ * Maps a range of the plaintext to the range of whole chunks to fetch.
+ * `size` is the size of the encrypted object.
+ */
+export function chunkRange(
+  envelope: Envelope,
+  range: ResolvedRange | undefined,
+  size: number,
+): { range?: ResolvedRange; window: ChunkWindow } {
+  const plaintextSize = envelope.plaintextSize(size);
+  const last = Math.max(Math.ceil(plaintextSize / envelope.chunkSize), 1) - 1;
+
+  let begin = 0;
+  let end = plaintextSize;
+  if (range && "suffix" in range) {
+    begin = Math.max(plaintextSize - range.suffix, 0);
+  } else if (range) {
+    begin = range.offset;
+    end = range.length === undefined ? plaintextSize : Math.min(begin + range.length, end);
+  }
+
+  const first = Math.floor(begin / envelope.chunkSize);
+  const window = {
+    first,
+    last,
+    skip: begin - first * envelope.chunkSize,
+    length: Math.max(end - begin, 0),
+  };
+  if (!range) {
+    return { window };
+  }
+
+  const lastRead = Math.max(Math.ceil(end / envelope.chunkSize) - 1, first);
+  const offset = first * envelope.sealedChunkSize;
+  const sealedEnd = Math.min((lastRead + 1) * envelope.sealedChunkSize, size);
+  return {
+    range: sealedEnd > offset ? { offset, length: sealedEnd - offset } : { offset },
+    window,
+  };
+}
+
+/**
+ * Decrypts the chunks of `source`, which starts at the first chunk of
+ * `window`, into the plaintext the window selects.
+ */
+export function decryptStream(
+  source: ReadableStream<Uint8Array>,
+  envelope: Envelope,
+  window: ChunkWindow,
+  location: BlobErrorLocation,
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  let buffered = Buffer.alloc(0);
+  let index = window.first;
+  let skip = window.skip;
+  let remaining = window.length;
+
+  const emit = (
+    plaintext: Buffer,
+    controller: TransformStreamDefaultController<Uint8Array<ArrayBuffer>>,
+  ) => {
+    const selected = plaintext.subarray(skip, skip + remaining);
+    skip = Math.max(skip - plaintext.byteLength, 0);
+    remaining -= selected.byteLength;
+    if (selected.byteLength > 0) {
+      controller.enqueue(new Uint8Array(selected));
+    }
+  };
+
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        buffered = Buffer.concat([buffered, chunk]);
+        // A full chunk may still be the last one, which only the index tells
+        while (buffered.byteLength >= envelope.sealedChunkSize && remaining > 0) {
+          const sealed = buffered.subarray(0, envelope.sealedChunkSize);
+          buffered = buffered.subarray(envelope.sealedChunkSize);
+          emit(envelope.decrypt(index, sealed, index === window.last, location), controller);
+          index++;
+        }
+      },
+      flush(controller) {
+        if (buffered.byteLength > 0 && remaining > 0) {
+          emit(envelope.decrypt(index, buffered, index === window.last, location), controller);
+        } else if (index === window.first && index === window.last && window.length === 0) {
+          // Even an empty object has a chunk, whose tag proves it was not truncated
+          envelope.decrypt(index, buffered, true, location);
+        }
+        if (remaining > 0) {
+          throw new BlobIntegrityError(`"${location.key}" ended before its last chunk`, {
+            ...location,
+            algorithm: "AES-256-GCM",
+          });
+        }
+      },
+    }),
+  );
+}
+
+/**
+ * Encrypts the content written to a {@link R2FileWriter} chunk by chunk.
+ * A chunk is only sealed once more content follows it or the writer ends,
+ * since the last chunk is authenticated as such.
+ */
+export class EncryptingWriter implements NetworkSink {
+  readonly #writer: R2FileWriter;
+  readonly #envelope: Envelope;
+  #chunks: Uint8Array[] = [];
+  #buffered = 0;
+  #index = 0;
+  #written = 0;
+  #closed = false;
+
+  constructor(writer: R2FileWriter, envelope: Envelope) {
+    this.#writer = writer;
+    this.#envelope = envelope;
+  }
+
+  start(options?: { highWaterMark?: number }): void {
+    this.#writer.start(options);
+  }
+
+  write(chunk: string | ArrayBufferView | ArrayBuffer | SharedArrayBuffer): number {
+    const bytes = chunkBytes(chunk);
+    this.#chunks.push(bytes);
+    this.#buffered += bytes.byteLength;
+    this.#written += bytes.byteLength;
+
+    while (this.#buffered > this.#envelope.chunkSize) {
+      this.#seal(this.#envelope.chunkSize, false);
+    }
+    return bytes.byteLength;
+  }
+
+  ready(): Promise<void> {
+    return this.#writer.ready();
+  }
+
+  /**
+   * Waits for the sealed chunks to be uploaded. Up to a chunk of content
+   * stays buffered until more is written or the writer ends.
+   *
+   * @returns Number of encrypted bytes committed since the previous flush
+   */
+  flush(): Promise<number> {
+    return this.#writer.flush();
+  }
+
+  /**
+   * Seals the last chunk and completes the upload.
+   *
+   * @returns Total number of bytes written, before encryption
+   */
+  async end(error?: Error): Promise<number> {
+    if (this.#closed) {
+      // The last chunk is sealed once, the writer reports the outcome of the upload again
+      await this.#writer.end();
+      return this.#written;
+    }
+    this.#closed = true;
+
+    if (!error) {
+      this.#seal(this.#buffered, true);
+    }
+    await this.#writer.end(error);
+    return error ? 0 : this.#written;
+  }
+
+  stat(): Promise<Stats> {
+    return this.#writer.stat();
+  }
+
+  ref(): void {
+    this.#writer.ref();
+  }
+
+  unref(): void {
+    this.#writer.unref();
+  }
+
+  #seal(size: number, last: boolean) {
+    this.#writer.write(this.#envelope.encrypt(this.#index++, this.#take(size), last));
+  }
+
+  /**
+   * Removes the first `size` bytes buffered. Only the bytes of the chunk are
+   * copied, and none when a single write holds them, so that a large write
+   * is not copied again for every chunk it is sealed into.
+   */
+  #take(size: number): Uint8Array {
+    this.#buffered -= size;
+    const first = this.#chunks[0];
+    if (!first || first.byteLength >= size) {
+      const taken = first?.subarray(0, size) ?? new Uint8Array(0);
+      if (first && first.byteLength === size) {
+        this.#chunks.shift();
+      } else if (first) {
+        this.#chunks[0] = first.subarray(size);
+      }
+      return taken;
+    }
+
+    const taken = new Uint8Array(size);
+    let offset = 0;
+    while (offset < size) {
+      const chunk = this.#chunks[0]!;
+      const length = Math.min(chunk.byteLength, size - offset);
+      taken.set(chunk.subarray(0, length), offset);
+      offset += length;
+      if (length === chunk.byteLength) {
+        this.#chunks.shift();
+      } else {
+        this.#chunks[0] = chunk.subarray(length);
+      }
+    }
+    return taken;
+  }
+}
+
+/**
+ * Creates the writer of an upload with `create`, encrypting the content when
+ * the options ask for it. The envelope is stored in the metadata of the object.
+ */
+export function uploadWriter(
+  options: R2Options,
+  create: (options: R2Options) => R2FileWriter,
+): R2FileWriter | EncryptingWriter {
+  if (!options.encryption) {
+    return create(options);
+  }
+
+  const { envelope, metadata } = sealEnvelope(options.encryption);
+  return new EncryptingWriter(
+    create({ ...options, metadata: { ...options.metadata, ...metadata } }),
+    envelope,
+  );
+}
+
+/** Keeps the metadata describing the encryption of an object, e.g. to carry it over a copy. */
+export const envelopeMetadata = (metadata: Record<string, string> | undefined) =>
+  Object.fromEntries(
+    Object.entries(metadata ?? {}).filter(([name]) => name.startsWith(METADATA.format)),
+  );
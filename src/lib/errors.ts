@@ -0,0 +1,264 @@
+/**
+ * Where a failed operation was pointed at.
+ */
+export type BlobErrorLocation = { bucket?: string; key?: string };
+
+type BlobErrorOptions = BlobErrorLocation & {
+  statusCode?: number;
+  requestId?: string;
+  cause?: unknown;
+};
+
+/**
+ * Base class of every error thrown for a failed storage operation.
+ *
+ * @example
+ *     try {
+ *       await file.text();
+ *     } catch (err) {
+ *       if (err instanceof BlobError) {
+ *         console.error(err.key, err.statusCode, err.requestId);
+ *       }
+ *     }
+ */
+export class BlobError extends Error {
+  override name = "BlobError";
+  /** The bucket of the object, when known */
+  readonly bucket?: string;
+  /** The key of the object, when the operation targeted one */
+  readonly key?: string;
+  /** The HTTP status code of the response, if one was received */
+  readonly statusCode?: number;
+  /** The request id reported by the server, useful when contacting support */
+  readonly requestId?: string;
+
+  constructor(message: string, options?: BlobErrorOptions) {
+    super(message, { cause: options?.cause });
+    this.bucket = options?.bucket;
+    this.key = options?.key;
+    this.statusCode = options?.statusCode;
+    this.requestId = options?.requestId;
+  }
+}
+
+/** The object, or the bucket holding it, does not exist. */
+export class BlobNotFoundError extends BlobError {
+  override name = "BlobNotFoundError";
+}
+
+/** The credentials are missing, invalid or not allowed to perform the operation. */
+export class BlobAccessDeniedError extends BlobError {
+  override name = "BlobAccessDeniedError";
+}
+
+/** A conditional request failed, e.g. the ETag of the object did not match. */
+export class BlobPreconditionFailedError extends BlobError {
+  override name = "BlobPreconditionFailedError";
+}
+
+/**
+ * A conditional read was skipped because the object did not change, i.e.
+ * `ifNoneMatch` or `ifModifiedSince` failed. Callers can keep using their
+ * cached copy.
+ */
+export class BlobNotModifiedError extends BlobError {
+  override name = "BlobNotModifiedError";
+}
+
+/** The requested byte range cannot be satisfied for the object. */
+export class BlobInvalidRangeError extends BlobError {
+  override name = "BlobInvalidRangeError";
+}
+
+/**
+ * A required setting, such as the credentials or the bucket, is neither
+ * passed as an option nor set in the environment.
+ */
+export class BlobConfigError extends BlobError {
+  override name = "BlobConfigError";
+  /** The names of the missing options */
+  readonly missing: string[];
+
+  constructor(message: string, missing: string[]) {
+    super(message);
+    this.missing = missing;
+  }
+}
+
+/**
+ * The content did not match its checksum: the server rejected an upload
+ * whose checksum it could not verify, or a downloaded object was corrupted
+ * in transit.
+ */
+export class BlobIntegrityError extends BlobError {
+  override name = "BlobIntegrityError";
+  /** The checksum algorithm, e.g. `CRC32`, when known */
+  readonly algorithm?: string;
+  /** The checksum stored with the object */
+  readonly expected?: string;
+  /** The checksum of the content received */
+  readonly actual?: string;
+
+  constructor(
+    message: string,
+    options?: BlobErrorOptions & { algorithm?: string; expected?: string; actual?: string },
+  ) {
+    super(message, options);
+    this.algorithm = options?.algorithm;
+    this.expected = options?.expected;
+    this.actual = options?.actual;
+  }
+}
+
+/** The request did not get a response, e.g. the connection was reset or timed out. */
+export class BlobNetworkError extends BlobError {
+  override name = "BlobNetworkError";
+}
+
+const NOT_FOUND_NAMES = new Set(["NotFound", "NoSuchKey", "NoSuchBucket", "NoSuchUpload"]);
+const ACCESS_DENIED_NAMES = new Set([
+  "AccessDenied",
+  "Forbidden",
+  "InvalidAccessKeyId",
+  "SignatureDoesNotMatch",
+  "Unauthorized",
+]);
+const PRECONDITION_FAILED_NAMES = new Set(["PreconditionFailed", "ConditionalRequestConflict"]);
+const INTEGRITY_ERROR_NAMES = new Set([
+  "BadDigest",
+  "InvalidDigest",
+  "XAmzContentChecksumMismatch",
+  "XAmzContentSHA256Mismatch",
+]);
+const NETWORK_ERROR_NAMES = new Set(["TimeoutError", "RequestTimeout", "NetworkError"]);
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** R2 binding error codes, see https://developers.cloudflare.com/r2/api/error-codes/ */
+const R2_NOT_FOUND_CODES = new Set([10006, 10007, 10024]);
+const R2_ACCESS_DENIED_CODES = new Set([10002, 10003]);
+const R2_PRECONDITION_FAILED_CODES = new Set([10031]);
+const R2_INTEGRITY_CODES = new Set([10037]);
+
+/** The error the AWS SDK raises once a downloaded body does not match its checksum header. */
+const CHECKSUM_MISMATCH =
+  /^Checksum mismatch: expected "([^"]*)" but received "([^"]*)" in response header "x-amz-checksum-(\w+)"/;
+
+type ErrorShape = {
+  name?: string;
+  message?: string;
+  code?: string | number;
+  cause?: unknown;
+  $metadata?: { httpStatusCode?: number; requestId?: string };
+};
+
+type BlobErrorClass = new (message: string, options?: BlobErrorOptions) => BlobError;
+
+function classify(error: ErrorShape, status: number | undefined): BlobErrorClass | undefined {
+  const { name = "", code } = error;
+  const causeCode = (error.cause as ErrorShape | undefined)?.code;
+
+  if (status === 404 || NOT_FOUND_NAMES.has(name)) return BlobNotFoundError;
+  if (status === 401 || status === 403 || ACCESS_DENIED_NAMES.has(name)) {
+    return BlobAccessDeniedError;
+  }
+  if (status === 304 || name === "NotModified") return BlobNotModifiedError;
+  if (status === 412 || PRECONDITION_FAILED_NAMES.has(name)) return BlobPreconditionFailedError;
+  if (status === 416 || name === "InvalidRange") return BlobInvalidRangeError;
+  if (INTEGRITY_ERROR_NAMES.has(name)) return BlobIntegrityError;
+
+  if (typeof code === "number") {
+    if (R2_NOT_FOUND_CODES.has(code)) return BlobNotFoundError;
+    if (R2_ACCESS_DENIED_CODES.has(code)) return BlobAccessDeniedError;
+    if (R2_PRECONDITION_FAILED_CODES.has(code)) return BlobPreconditionFailedError;
+    if (R2_INTEGRITY_CODES.has(code)) return BlobIntegrityError;
+    return BlobError;
+  }
+
+  if (
+    NETWORK_ERROR_NAMES.has(name) ||
+    NETWORK_ERROR_CODES.has(String(code)) ||
+    NETWORK_ERROR_CODES.has(String(causeCode))
+  ) {
+    return BlobNetworkError;
+  }
+
+  // Any other error answered by the server
+  if (status !== undefined) return BlobError;
+}
+
+const DEFAULT_MESSAGES = new Map<BlobErrorClass, string>([
+  [BlobError, "Request failed"],
+  [BlobNotFoundError, "The object does not exist"],
+  [BlobAccessDeniedError, "Access denied"],
+  [BlobNotModifiedError, "Not modified"],
+  [BlobPreconditionFailedError, "Precondition failed"],
+  [BlobInvalidRangeError, "The requested range is not satisfiable"],
+  [BlobIntegrityError, "The content does not match its checksum"],
+  [BlobNetworkError, "Network error"],
+]);
+
+/**
+ * Translates an AWS SDK or R2 binding error into the matching {@link BlobError}.
+ *
+ * Errors that are already a {@link BlobError}, and errors that do not come
+ * from the storage service, such as aborts or invalid arguments, are
+ * returned unchanged. The original error is kept as `cause`.
+ */
+export function toBlobError(error: unknown, location?: BlobErrorLocation): unknown {
+  if (error instanceof BlobError || typeof error !== "object" || error === null) {
+    return error;
+  }
+
+  const e = error as ErrorShape;
+  const target = location?.key ? ` for "${location.key}"` : "";
+  const mismatch = CHECKSUM_MISMATCH.exec(e.message ?? "");
+  if (mismatch) {
+    const [, expected, actual, algorithm] = mismatch;
+    return new BlobIntegrityError(
+      `The ${algorithm!.toUpperCase()} checksum of the content does not match${target}`,
+      { ...location, algorithm: algorithm!.toUpperCase(), expected, actual, cause: error },
+    );
+  }
+
+  const status = e.$metadata?.httpStatusCode;
+  const ErrorClass = classify(e, status);
+  if (!ErrorClass) {
+    return error;
+  }
+
+  // HEAD responses have no body, which leaves the SDK without a message
+  const message =
+    e.message && !/^Unknown(Error)?$/.test(e.message)
+      ? e.message
+      : DEFAULT_MESSAGES.get(ErrorClass);
+  return new ErrorClass(`${message}${target}`, {
+    bucket: location?.bucket,
+    key: location?.key,
+    statusCode: status,
+    requestId: e.$metadata?.requestId,
+    cause: error,
+  });
+}
+
+/**
+ * Runs `fn`, translating its failure with {@link toBlobError}.
+ */
+export async function withBlobErrors<T>(
+  location: BlobErrorLocation,
+  fn: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    throw toBlobError(error, location);
+  }
+}
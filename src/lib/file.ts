@@ -1,39 +1,100 @@
-import type { NetworkSink, R2File, R2FilePresignOptions, R2Options, R2Stats } from "./types.ts";
+import type {
+  NetworkSink,
+  R2Conditions,
+  R2CopyOptions,
+  R2File,
+  R2FilePresignOptions,
+  R2Options,
+  R2Stats,
+  R2WriteData,
+} from "./types.ts";
 import {
   DeleteObjectCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  type GetObjectCommandOutput,
+  type HeadObjectCommandOutput,
   PutObjectCommand,
   type S3Client,
   type ObjectCannedACL,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { createClient } from "./create-client.ts";
+import { copyObject } from "./copy.ts";
+import { type ClientPool, sharedPool } from "./create-client.ts";
+import { parsePath } from "./path.ts";
+import { requireConfig, resolveConfig } from "./config.ts";
+import {
+  type ByteRange,
+  type ResolvedRange,
+  rangeNeedsSize,
+  rangeSize,
+  resolveRange,
+  sliceRange,
+  toHttpRange,
+} from "./range.ts";
+import { pipeToWriter, R2FileWriter, s3MultipartTarget } from "./writer.ts";
+import { toUploadBody } from "./body.ts";
+import { BlobNotFoundError, toBlobError, withBlobErrors } from "./errors.ts";
+import { s3ObjectHeaders, statFromHead } from "./metadata.ts";
+import { compressingWriter, decompressStream, readCompression } from "./compression.ts";
+import { SSE_CUSTOMER_HEADERS, s3CustomerKey } from "./sse.ts";
+import {
+  chunkRange,
+  decryptStream,
+  openEnvelope,
+  plaintextStats,
+  uploadWriter,
+} from "./encryption.ts";
+import {
+  pickConditions,
+  s3Conditions,
+  withConditionHeaders,
+  withoutConditions,
+} from "./conditions.ts";
+
+/** The parts of a GetObject body the reads consume. */
+type ResponseBody = Pick<
+  NonNullable<GetObjectCommandOutput["Body"]>,
+  "transformToWebStream" | "transformToByteArray" | "transformToString"
+>;
+
+/** Exposes decrypted content the way the S3 client exposes bodies. */
+const streamBody = (stream: ReadableStream<Uint8Array<ArrayBuffer>>): ResponseBody => ({
+  transformToWebStream: () => stream,
+  transformToByteArray: async () => new Uint8Array(await new Response(stream).arrayBuffer()),
+  transformToString: async (encoding) =>
+    new TextDecoder(encoding).decode(await new Response(stream).arrayBuffer()),
+});
 
 export class R2FileReader implements R2File {
   readonly name: string;
+  readonly bucket: string;
   readonly #options: R2Options | undefined;
-  readonly #bucket: string;
   readonly #client: S3Client;
-  readonly #range?: { begin?: number; end?: number };
+  readonly #range?: ByteRange;
+  readonly #pool: ClientPool;
 
   static list() {}
 
-  constructor(path: string, options?: R2Options, range?: { begin?: number; end?: number }) {
-    this.name = path;
+  constructor(path: string, options?: R2Options, range?: ByteRange, pool: ClientPool = sharedPool) {
+    options = resolveConfig(options);
+    const { bucket, key } = parsePath(path, options.bucket);
+    requireConfig({ bucket }, "bucket");
+    this.name = key;
+    this.bucket = bucket;
     this.#options = options || {};
-    this.#client = createClient(options);
-    this.#bucket = options?.bucket ?? "";
+    this.#client = pool.get(options);
     this.#range = range;
+    this.#pool = pool;
   }
 
   // Blob properties
   get size(): number {
-    return NaN;
+    return rangeSize(this.#range);
   }
 
   get type(): string {
-    return "";
+    return this.#options?.type ?? "";
   }
 
   get readable(): ReadableStream<Uint8Array<ArrayBuffer>> {
@@ -48,53 +109,18 @@ export class R2FileReader implements R2File {
     endOrContentType?: number | string,
     contentType?: string,
   ): R2File {
-    let begin: number | undefined;
-    let end: number | undefined;
-    let type: string | undefined;
-
-    // Parse arguments based on types
-    if (typeof beginOrContentType === "string") {
-      // slice(contentType)
-      type = beginOrContentType;
-    } else if (typeof beginOrContentType === "number") {
-      begin = beginOrContentType;
-      if (typeof endOrContentType === "string") {
-        // slice(begin, contentType)
-        type = endOrContentType;
-      } else if (typeof endOrContentType === "number") {
-        // slice(begin, end, contentType)
-        end = endOrContentType;
-        type = contentType;
-      }
-    }
-
-    // Merge with existing range if this is already a sliced file
-    const newRange: { begin?: number; end?: number } = {};
-    if (begin !== undefined || end !== undefined) {
-      const existingBegin = this.#range?.begin ?? 0;
-      const existingEnd = this.#range?.end;
-
-      if (begin !== undefined) {
-        newRange.begin = existingBegin + begin;
-      } else {
-        newRange.begin = existingBegin;
-      }
-
-      if (end !== undefined) {
-        if (existingEnd !== undefined) {
-          newRange.end = Math.min(existingBegin + end, existingEnd);
-        } else {
-          newRange.end = existingBegin + end;
-        }
-      } else {
-        newRange.end = existingEnd;
-      }
-    }
+    const { range, type } = sliceRange(
+      this.#range,
+      beginOrContentType,
+      endOrContentType,
+      contentType,
+    );
 
     return new R2FileReader(
       this.name,
-      { ...this.#options, type },
-      Object.keys(newRange).length > 0 ? newRange : this.#range,
+      { ...this.#options, bucket: this.bucket, type: type ?? this.#options?.type },
+      range,
+      this.#pool,
     );
   }
 
@@ -102,44 +128,34 @@ export class R2FileReader implements R2File {
     try {
       await this.#client.send(
         new HeadObjectCommand({
-          Bucket: this.#bucket,
+          Bucket: this.bucket,
           Key: this.name,
+          ...s3CustomerKey(this.#options),
         }),
       );
 
       return true;
     } catch (error) {
-      // If the error is NotFound or NoSuchKey, the object doesn't exist
-      if (
-        error instanceof Error &&
-        "name" in error &&
-        (error.name === "NotFound" || error.name === "NoSuchKey")
-      ) {
+      if (error instanceof BlobNotFoundError) {
         return false;
       }
-      // Re-throw other errors
       throw error;
     }
   }
 
   writer(options?: R2Options): NetworkSink {
-    throw new Error("writer() not yet implemented");
+    return this.#uploadWriter({ ...this.#options, ...options });
   }
 
-  stream(): ReadableStream<Uint8Array<ArrayBuffer>> {
+  stream(options?: R2Conditions): ReadableStream<Uint8Array<ArrayBuffer>> {
     // oxlint-disable-next-line no-this-alias
     const self = this;
     return new ReadableStream({
       async start(controller) {
         try {
-          const response = await self.#client.send(
-            new GetObjectCommand({
-              Bucket: self.#bucket,
-              Key: self.name,
-            }),
-          );
-
-          if (!response.Body) {
+          const response = await self.#get(options);
+
+          if (!response?.Body) {
             controller.close();
             return;
           }
@@ -152,25 +168,21 @@ export class R2FileReader implements R2File {
           }
           controller.close();
         } catch (error) {
-          controller.error(error);
+          controller.error(toBlobError(error, self.#location));
         }
       },
     });
   }
 
-  async arrayBuffer(): Promise<ArrayBuffer> {
-    const response = await this.#client.send(
-      new GetObjectCommand({
-        Bucket: this.#bucket,
-        Key: this.name,
-      }),
-    );
+  async arrayBuffer(options?: R2Conditions): Promise<ArrayBuffer> {
+    const response = await this.#get(options);
 
-    if (!response.Body) {
+    if (!response?.Body) {
       return new ArrayBuffer(0);
     }
 
-    const uint8Array = await response.Body.transformToByteArray();
+    const body = response.Body;
+    const uint8Array = await withBlobErrors(this.#location, () => body.transformToByteArray());
     // Ensure we return an ArrayBuffer, not SharedArrayBuffer
     const buffer = uint8Array.buffer;
     if (buffer instanceof SharedArrayBuffer) {
@@ -182,39 +194,31 @@ export class R2FileReader implements R2File {
     return buffer.slice(uint8Array.byteOffset, uint8Array.byteOffset + uint8Array.byteLength);
   }
 
-  async text(): Promise<string> {
-    const response = await this.#client.send(
-      new GetObjectCommand({
-        Bucket: this.#bucket,
-        Key: this.name,
-      }),
-    );
+  async text(options?: R2Conditions): Promise<string> {
+    const response = await this.#get(options);
 
-    if (!response.Body) {
+    if (!response?.Body) {
       return "";
     }
 
-    return response.Body.transformToString();
+    const body = response.Body;
+    return withBlobErrors(this.#location, () => body.transformToString());
   }
 
-  async json<T>(): Promise<T> {
-    const text = await this.text();
+  async json<T>(options?: R2Conditions): Promise<T> {
+    const text = await this.text(options);
     return JSON.parse(text) as T;
   }
 
-  async bytes(): Promise<Uint8Array<ArrayBuffer>> {
-    const response = await this.#client.send(
-      new GetObjectCommand({
-        Bucket: this.#bucket,
-        Key: this.name,
-      }),
-    );
+  async bytes(options?: R2Conditions): Promise<Uint8Array<ArrayBuffer>> {
+    const response = await this.#get(options);
 
-    if (!response.Body) {
+    if (!response?.Body) {
       return new Uint8Array(0) as Uint8Array<ArrayBuffer>;
     }
 
-    const uint8Array = await response.Body.transformToByteArray();
+    const body = response.Body;
+    const uint8Array = await withBlobErrors(this.#location, () => body.transformToByteArray());
     // Ensure we return a Uint8Array backed by ArrayBuffer, not SharedArrayBuffer
     if (uint8Array.buffer instanceof SharedArrayBuffer) {
       const regularBuffer = new ArrayBuffer(uint8Array.byteLength);
@@ -230,135 +234,241 @@ export class R2FileReader implements R2File {
     ) as Uint8Array<ArrayBuffer>;
   }
 
-  async write(
-    data:
-      | string
-      | ArrayBufferView
-      | ArrayBuffer
-      | SharedArrayBuffer
-      | Request
-      | Response
-      | R2File
-      | Blob,
-    options?: R2Options,
-  ): Promise<number> {
-    let body: Buffer | string;
-    let contentType = options?.type ?? this.#options?.type;
-
-    if (typeof data === "string") {
-      body = Buffer.from(new TextEncoder().encode(data));
-    } else if (data instanceof ArrayBuffer || data instanceof SharedArrayBuffer) {
-      body = Buffer.from(data);
-    } else if (ArrayBuffer.isView(data)) {
-      body = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
-    } else if (data instanceof Request || data instanceof Response) {
-      const arrayBuffer = await data.arrayBuffer();
-      body = Buffer.from(arrayBuffer);
-      contentType = contentType || data.headers.get("content-type") || undefined;
-    } else if (data instanceof Blob) {
-      const arrayBuffer = await data.arrayBuffer();
-      body = Buffer.from(arrayBuffer);
-      contentType = contentType || data.type || undefined;
-    } else {
-      throw new Error("Unsupported data type");
+  /** Where errors of the body, which the S3 client cannot translate, are reported at. */
+  get #location() {
+    return { bucket: this.bucket, key: this.name };
+  }
+
+  /**
+   * Fetches the object, honoring the byte range of this slice and the preconditions.
+   * Resolves to `null` when the slice is known to be empty.
+   * Full reads are verified against the checksum of the object as the body is consumed.
+   * Encrypted objects are decrypted, slices fetching the whole chunks they overlap.
+   * Objects are decompressed according to their Content-Encoding, unless disabled,
+   * and slices of compressed objects rejected since they cannot be decoded.
+   */
+  async #get(options?: R2Conditions): Promise<{ Body?: ResponseBody } | null> {
+    const conditions = pickConditions({ ...this.#options, ...options });
+    const encryption = this.#options?.encryption;
+    // Offsets relative to the end of the object need its size unless they form a suffix range,
+    // and slices of encrypted objects the layout of their chunks
+    const head =
+      this.#range && (encryption || rangeNeedsSize(this.#range))
+        ? await this.#head(conditions)
+        : undefined;
+    const envelope = head && openEnvelope(head.Metadata, encryption, this.#location);
+    const size = head?.ContentLength ?? 0;
+    const resolved = resolveRange(
+      this.#range,
+      head && (envelope ? envelope.plaintextSize(size) : size),
+    );
+    if (resolved === null) {
+      return null;
     }
+    const { range, window } = envelope
+      ? chunkRange(envelope, resolved, size)
+      : { range: resolved, window: undefined };
 
-    await this.#client.send(
-      new PutObjectCommand({
-        Bucket: this.#bucket,
+    const response = await this.#client.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
         Key: this.name,
-        Body: body,
-        ContentType: contentType,
-        ACL: options?.acl as ObjectCannedACL | undefined,
-        StorageClass: options?.storageClass,
+        Range: range ? toHttpRange(range) : undefined,
+        // S3 only returns the checksum of the whole object
+        ChecksumMode: range ? undefined : "ENABLED",
+        ...s3CustomerKey(this.#options),
+        // The chunks must belong to the version whose envelope was read
+        ...s3Conditions(envelope ? { ...conditions, ifMatch: head?.ETag } : conditions),
       }),
     );
 
-    return typeof body === "string" ? Buffer.byteLength(body) : body.length;
+    const opened = envelope ?? openEnvelope(response.Metadata, encryption, this.#location);
+    let compression;
+    try {
+      compression = readCompression(
+        response.ContentEncoding,
+        Boolean(resolved),
+        this.#options,
+        this.#location,
+      );
+    } catch (error) {
+      await response.Body?.transformToWebStream().cancel();
+      throw error;
+    }
+    if ((!opened && !compression) || !response.Body) {
+      return response;
+    }
+
+    let body = response.Body.transformToWebStream();
+    if (opened) {
+      body = decryptStream(
+        body,
+        opened,
+        window ?? chunkRange(opened, undefined, response.ContentLength ?? 0).window,
+        this.#location,
+      );
+    }
+    if (compression) {
+      body = decompressStream(body, compression, this.#location);
+    }
+    return { Body: streamBody(body) };
+  }
+
+  async write(data: R2WriteData, options?: R2Options): Promise<number> {
+    const { body, type } = toUploadBody(data);
+    const writeOptions = {
+      ...this.#options,
+      ...options,
+      type: options?.type ?? this.#options?.type ?? type,
+    };
+
+    return pipeToWriter(body, this.#uploadWriter(writeOptions));
+  }
+
+  /**
+   * Creates the writer of an upload, which compresses then encrypts the
+   * content when the options ask for it.
+   */
+  #uploadWriter(options: R2Options) {
+    return compressingWriter(options, (options) =>
+      uploadWriter(
+        options,
+        (options) =>
+          new R2FileWriter(
+            s3MultipartTarget(this.#client, this.bucket, this.name, options),
+            options,
+          ),
+      ),
+    );
   }
 
   async presign(options?: R2FilePresignOptions): Promise<string> {
     const method = options?.method || "GET";
     let commandToSign;
+    let range: string | undefined;
 
     switch (method) {
-      case "GET":
+      case "GET": {
+        const resolved = options?.range ?? (await this.#presignRange());
+        range = resolved ? toHttpRange(resolved) : undefined;
         commandToSign = new GetObjectCommand({
-          Bucket: this.#bucket,
+          Bucket: this.bucket,
           Key: this.name,
+          VersionId: options?.versionId,
+          Range: range,
+          ResponseContentDisposition: options?.responseContentDisposition,
+          ResponseContentType: options?.responseContentType,
+          ResponseCacheControl: options?.responseCacheControl,
+          ResponseContentEncoding: options?.responseContentEncoding,
+          ...s3CustomerKey({ ...this.#options, ...options }),
         });
         break;
+      }
       case "PUT":
         commandToSign = new PutObjectCommand({
-          Bucket: this.#bucket,
+          Bucket: this.bucket,
           Key: this.name,
-          ContentType: options?.type ?? this.#options?.type,
+          // Signed as headers, so the uploader must send the same values
+          ...s3ObjectHeaders({ ...this.#options, ...options }),
           ACL: options?.acl as ObjectCannedACL | undefined,
+          ...s3CustomerKey({ ...this.#options, ...options }),
         });
         break;
       case "DELETE":
         commandToSign = new DeleteObjectCommand({
-          Bucket: this.#bucket,
+          Bucket: this.bucket,
           Key: this.name,
+          VersionId: options?.versionId,
         });
         break;
       case "HEAD":
         commandToSign = new HeadObjectCommand({
-          Bucket: this.#bucket,
+          Bucket: this.bucket,
           Key: this.name,
+          VersionId: options?.versionId,
+          ...s3CustomerKey({ ...this.#options, ...options }),
         });
         break;
+      case "POST":
+        throw new TypeError("POST uploads need form fields, use presignPost() instead");
       default:
         throw new Error(`Unsupported method: ${method}`);
     }
 
     return await getSignedUrl(this.#client, commandToSign, {
       expiresIn: options?.expiresIn || 900,
+      // S3 has no query parameter for ranges or SSE-C keys, so they must stay signed headers
+      unhoistableHeaders: new Set([...(range ? ["range"] : []), ...SSE_CUSTOMER_HEADERS]),
     });
   }
 
-  async delete(): Promise<void> {
-    await this.#client.send(
-      new DeleteObjectCommand({
-        Bucket: this.#bucket,
-        Key: this.name,
-      }),
-    );
+  /**
+   * Resolves the range of this slice for a presigned URL, which has to be absolute.
+   */
+  async #presignRange(): Promise<ResolvedRange | undefined> {
+    const size = rangeNeedsSize(this.#range) ? (await this.stat()).size : undefined;
+    const range = resolveRange(this.#range, size);
+    if (range === null) {
+      throw new RangeError(`Cannot presign the empty slice of "${this.name}"`);
+    }
+    return range;
   }
 
-  unlink = this.delete;
+  async copyTo(destination: string | R2File, options?: R2CopyOptions): Promise<R2File> {
+    const target =
+      typeof destination === "string"
+        ? new R2FileReader(
+            destination,
+            withoutConditions({ ...this.#options, bucket: this.bucket, ...options }),
+            undefined,
+            this.#pool,
+          )
+        : destination;
+
+    await copyObject(
+      this.#client,
+      { bucket: this.bucket, key: this.name },
+      { bucket: target.bucket ?? this.bucket, key: target.name ?? "" },
+      {
+        ...this.#options,
+        ...options,
+        sourceSseCustomerKey: options?.sourceSseCustomerKey ?? this.#options?.sseCustomerKey,
+        sourceSseCustomerAlgorithm:
+          options?.sourceSseCustomerAlgorithm ?? this.#options?.sseCustomerAlgorithm,
+      },
+    );
 
-  async stat(): Promise<R2Stats> {
-    try {
-      const response = await this.#client.send(
-        new HeadObjectCommand({
-          Bucket: this.#bucket,
+    return target;
+  }
+
+  async delete(options?: R2Conditions): Promise<void> {
+    await this.#client.send(
+      withConditionHeaders(
+        new DeleteObjectCommand({
+          Bucket: this.bucket,
           Key: this.name,
         }),
-      );
+        pickConditions({ ...this.#options, ...options }),
+      ),
+    );
+  }
 
-      return new S3Stat(
-        response.ContentType,
-        response.ETag,
-        response.ContentLength,
-        response.LastModified,
-      );
-    } catch (e) {
-      console.log(e);
-      throw e;
-    }
+  unlink = this.delete;
+
+  async stat(options?: R2Conditions): Promise<R2Stats> {
+    const response = await this.#head(pickConditions({ ...this.#options, ...options }));
+    return plaintextStats(statFromHead(response));
   }
-}
 
-export class S3Stat implements R2Stats {
-  type: string;
-  etag: string;
-  size: number;
-  lastModified: Date;
-  constructor(type?: string, etag?: string, size?: number, lastModified?: Date) {
-    this.type = type ?? "";
-    this.etag = etag ?? "";
-    this.size = size ?? 0;
-    this.lastModified = lastModified ?? new Date();
+  #head(conditions: R2Conditions): Promise<HeadObjectCommandOutput> {
+    return this.#client.send(
+      new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.name,
+        ChecksumMode: "ENABLED",
+        ...s3CustomerKey(this.#options),
+        ...s3Conditions(conditions),
+      }),
+    );
   }
 }
@@ -0,0 +1,440 @@
+import type {
+  R2Bucket,
+  R2HTTPMetadata,
+  R2Object,
+  R2ObjectBody,
+  R2Objects,
+  R2Range,
+  R2UploadedPart,
+} from "@cloudflare/workers-types";
+import type { R2File, R2Options } from "./types.ts";
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readdir, readFile, rename, rm, rmdir, stat, writeFile } from "node:fs/promises";
+import { dirname, join, relative, sep } from "node:path";
+import { Readable } from "node:stream";
+import { finished } from "node:stream/promises";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import {
+  type BucketBody,
+  type ListOptions,
+  type ObjectRecord,
+  type PutOptions,
+  type RecordChecksums,
+  bodyRange,
+  conditionsHold,
+  definedOnly,
+  listKeys,
+  md5,
+  multipartEtag,
+  noSuchUpload,
+  readBody,
+  recordChecksums,
+  toHex,
+  toR2Object,
+  toR2ObjectBody,
+} from "./bucket-emulation.ts";
+import { R2BindingFile } from "./binding-file.ts";
+import { requireConfig, withLocalCredentials } from "./config.ts";
+import { BlobConfigError, BlobNotFoundError } from "./errors.ts";
+import { parsePath } from "./path.ts";
+
+/** Directories next to the buckets, named so that they cannot be bucket names. */
+const METADATA_DIR = ".meta";
+const TEMP_DIR = ".tmp";
+const UPLOADS_DIR = ".uploads";
+
+/** The content of the sidecar file stored with each object. */
+type Sidecar = {
+  etag: string;
+  md5?: string;
+  sha1?: string;
+  sha256?: string;
+  version: string;
+  uploaded: string;
+  httpMetadata: Omit<R2HTTPMetadata, "cacheExpiry"> & { cacheExpiry?: string };
+  customMetadata: Record<string, string>;
+  storageClass: string;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => Buffer.from(buffer).toString("base64");
+
+const fromBase64 = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const bytes = Buffer.from(value, "base64");
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+};
+
+/**
+ * Tells whether `bucket` follows the S3 bucket naming rules: 3 to 63
+ * lowercase letters, digits, dots and hyphens, starting and ending with a
+ * letter or digit, without `..` and not formatted as an IP address. Such a
+ * name is a single path segment, which cannot escape the root directory.
+ */
+const isValidBucketName = (bucket: string) =>
+  /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(bucket) &&
+  !bucket.includes("..") &&
+  !/^\d+\.\d+\.\d+\.\d+$/.test(bucket);
+
+const isMissing = (error: unknown) =>
+  ["ENOENT", "ENOTDIR", "EISDIR"].includes((error as NodeJS.ErrnoException).code ?? "");
+
+/**
+ * Creates an {@link R2File} stored in the local directory of a `file://` endpoint.
+ */
+export function fileSystemFile(path: string, options: R2Options): R2File {
+  const { bucket } = parsePath(path, options.bucket);
+  requireConfig({ bucket }, "bucket");
+  const local = new FileSystemBucket(options.endpoint!, bucket);
+
+  return new R2BindingFile(
+    path,
+    () => local.asBinding(),
+    withLocalCredentials({ ...options, bucket }),
+    undefined,
+    async (key) => local.url(key),
+  );
+}
+
+/**
+ * A bucket stored in a local directory, implementing the subset of the
+ * Workers R2 bucket binding used by {@link R2BindingFile}.
+ *
+ * Each bucket is a subdirectory of the root, and each key a path in it, split
+ * on `/`. Headers and metadata are stored in sidecar JSON files under
+ * `.meta/<bucket>/`, so that the bucket directory only holds the objects.
+ * Files copied into the bucket directory by other means are listed too, with
+ * an ETag computed from their content.
+ */
+export class FileSystemBucket {
+  readonly #root: string;
+  readonly #bucket: string;
+
+  /**
+   * @param root The `file://` URL of the directory holding the buckets
+   * @param bucket The name of the bucket
+   */
+  constructor(root: string, bucket: string) {
+    if ([METADATA_DIR, TEMP_DIR, UPLOADS_DIR].includes(bucket) || !isValidBucketName(bucket)) {
+      throw new BlobConfigError(
+        `Invalid bucket name "${bucket}": bucket names are 3 to 63 lowercase letters, digits, dots and hyphens`,
+        ["bucket"],
+      );
+    }
+    this.#root = fileURLToPath(root);
+    this.#bucket = bucket;
+  }
+
+  /** Exposes the bucket with the type of the binding it stands in for. */
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+
+  /** Returns the `file://` URL of an object, standing in for presigned URLs. */
+  url(key: string): string {
+    return pathToFileURL(this.#path(key)).href;
+  }
+
+  async head(key: string): Promise<R2Object | null> {
+    const record = await this.#record(key);
+    return record ? toR2Object(record) : null;
+  }
+
+  async get(
+    key: string,
+    options?: { range?: R2Range; onlyIf?: PutOptions["onlyIf"] },
+  ): Promise<R2ObjectBody | R2Object | null> {
+    const record = await this.#record(key);
+    if (!record) {
+      return null;
+    }
+    // Like the binding, a failed precondition returns the object without its body
+    if (!conditionsHold(options?.onlyIf, record)) {
+      return toR2Object(record);
+    }
+
+    // Stream the file, so that large objects are not read into memory
+    const { begin, end } = bodyRange(record, options?.range);
+    const body =
+      end > begin
+        ? (Readable.toWeb(
+            createReadStream(this.#path(key), { start: begin, end: end - 1 }),
+          ) as BucketBody)
+        : null;
+    return toR2ObjectBody(record, options?.range, body);
+  }
+
+  async put(key: string, body: BucketBody, options?: PutOptions): Promise<R2Object | null> {
+    if (!conditionsHold(options?.onlyIf, await this.#record(key))) {
+      return null;
+    }
+
+    const data = await readBody(body);
+    const checksums = recordChecksums(key, data, options);
+    const temp = await this.#tempPath();
+    await writeFile(temp, data);
+    return toR2Object(
+      await this.#commit(key, temp, data.byteLength, toHex(checksums.md5!), options, checksums),
+    );
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      await rm(this.#path(key), { force: true });
+      await rm(this.#sidecarPath(key), { force: true });
+      await this.#prune(dirname(this.#path(key)), join(this.#root, this.#bucket));
+      await this.#prune(
+        dirname(this.#sidecarPath(key)),
+        join(this.#root, METADATA_DIR, this.#bucket),
+      );
+    }
+  }
+
+  async list(options?: ListOptions): Promise<R2Objects> {
+    // Only the directory holding the prefix needs to be walked
+    const prefix = options?.prefix ?? "";
+    const start = prefix.slice(0, Math.max(prefix.lastIndexOf("/"), 0)).split("/");
+    const walkable = start.every((segment) => segment !== "." && segment !== "..");
+    const keys = await this.#walk(join(this.#root, this.#bucket, ...(walkable ? start : [])));
+
+    return listKeys(keys, options, async (key) => {
+      const record = await this.#record(key);
+      return record ? toR2Object(record) : null;
+    });
+  }
+
+  async createMultipartUpload(key: string, options?: PutOptions) {
+    // Reject keys that cannot be stored before any part is uploaded
+    this.#path(key);
+    const uploadId = randomUUID();
+    const dir = join(this.#root, UPLOADS_DIR, uploadId);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "upload.json"), JSON.stringify({ key, options: options ?? {} }));
+    return { key, uploadId };
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const dir = join(this.#root, UPLOADS_DIR, uploadId);
+    const upload = async (): Promise<{ key: string; options: PutOptions }> => {
+      try {
+        const pending = JSON.parse(await readFile(join(dir, "upload.json"), "utf8"));
+        if (pending.key === key) return pending;
+      } catch (error) {
+        if (!isMissing(error)) throw error;
+      }
+      throw noSuchUpload(key, uploadId);
+    };
+
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, body: BucketBody): Promise<R2UploadedPart> => {
+        await upload();
+        const data = await readBody(body);
+        await writeFile(join(dir, String(partNumber)), data);
+        return { partNumber, etag: toHex(md5(data)) };
+      },
+      complete: async (parts: R2UploadedPart[]): Promise<R2Object> => {
+        const { options } = await upload();
+        const temp = await this.#tempPath();
+        const output = createWriteStream(temp);
+        let size = 0;
+
+        try {
+          for (const { partNumber } of parts) {
+            const part = join(dir, String(partNumber));
+            const { size: partSize } = await stat(part).catch((error) => {
+              throw isMissing(error)
+                ? new BlobNotFoundError(`Part ${partNumber} of ${uploadId} was not uploaded`, {
+                    key,
+                    statusCode: 400,
+                  })
+                : error;
+            });
+            for await (const chunk of createReadStream(part)) {
+              if (!output.write(chunk))
+                await new Promise((resolve) => output.once("drain", resolve));
+            }
+            size += partSize;
+          }
+          output.end();
+          await finished(output);
+        } catch (error) {
+          output.destroy();
+          await rm(temp, { force: true });
+          throw error;
+        }
+
+        const etag = multipartEtag(
+          parts.map(({ etag }) => {
+            const hash = Buffer.from(etag, "hex");
+            return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.byteLength);
+          }),
+        );
+        const record = await this.#commit(key, temp, size, etag, options);
+        await rm(dir, { recursive: true, force: true });
+        return toR2Object(record);
+      },
+      abort: async (): Promise<void> => {
+        await upload();
+        await rm(dir, { recursive: true, force: true });
+      },
+    };
+  }
+
+  /**
+   * Maps a key to its path in the bucket directory. Keys with empty, `.` or
+   * `..` segments are rejected, since they would alias or escape other paths.
+   */
+  #path(key: string): string {
+    const segments = key.split("/");
+    if (segments.some((segment) => segment === "" || segment === "." || segment === "..")) {
+      throw new TypeError(`The key "${key}" cannot be stored in a local directory`);
+    }
+    return join(this.#root, this.#bucket, ...segments);
+  }
+
+  #sidecarPath(key: string): string {
+    return join(this.#root, METADATA_DIR, this.#bucket, ...key.split("/")) + ".json";
+  }
+
+  async #tempPath(): Promise<string> {
+    const dir = join(this.#root, TEMP_DIR);
+    await mkdir(dir, { recursive: true });
+    return join(dir, randomUUID());
+  }
+
+  /**
+   * Moves a fully written temporary file into place, then records its
+   * headers and metadata, so that readers never see a partial object.
+   */
+  async #commit(
+    key: string,
+    temp: string,
+    size: number,
+    etag: string,
+    options?: PutOptions,
+    checksums?: RecordChecksums,
+  ): Promise<ObjectRecord> {
+    const path = this.#path(key);
+    const uploaded = new Date();
+    const { cacheExpiry, ...httpMetadata } = definedOnly(options?.httpMetadata);
+    const sidecar: Sidecar = {
+      etag,
+      md5: checksums?.md5 && toBase64(checksums.md5),
+      sha1: checksums?.sha1 && toBase64(checksums.sha1),
+      sha256: checksums?.sha256 && toBase64(checksums.sha256),
+      version: randomUUID(),
+      uploaded: uploaded.toISOString(),
+      httpMetadata: {
+        ...httpMetadata,
+        cacheExpiry: cacheExpiry && new Date(cacheExpiry).toISOString(),
+      },
+      customMetadata: { ...options?.customMetadata },
+      storageClass: options?.storageClass ?? "Standard",
+    };
+
+    await mkdir(dirname(path), { recursive: true });
+    await rename(temp, path);
+    const sidecarPath = this.#sidecarPath(key);
+    const sidecarTemp = await this.#tempPath();
+    await writeFile(sidecarTemp, JSON.stringify(sidecar));
+    await mkdir(dirname(sidecarPath), { recursive: true });
+    await rename(sidecarTemp, sidecarPath);
+
+    return this.#toRecord(key, size, sidecar);
+  }
+
+  async #record(key: string): Promise<ObjectRecord | null> {
+    const path = this.#path(key);
+    let size: number;
+    let mtime: Date;
+    try {
+      const stats = await stat(path);
+      if (!stats.isFile()) return null;
+      ({ size, mtime } = stats);
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    try {
+      const sidecar: Sidecar = JSON.parse(await readFile(this.#sidecarPath(key), "utf8"));
+      return this.#toRecord(key, size, sidecar);
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+
+    // Files added to the directory directly have no sidecar
+    const hash = createHash("md5");
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk);
+    }
+    return {
+      key,
+      version: String(mtime.getTime()),
+      size,
+      etag: hash.digest("hex"),
+      uploaded: mtime,
+      httpMetadata: {},
+      customMetadata: {},
+      storageClass: "Standard",
+    };
+  }
+
+  #toRecord(key: string, size: number, sidecar: Sidecar): ObjectRecord {
+    const { cacheExpiry, ...httpMetadata } = sidecar.httpMetadata;
+    return {
+      key,
+      version: sidecar.version,
+      size,
+      etag: sidecar.etag,
+      md5: fromBase64(sidecar.md5),
+      sha1: fromBase64(sidecar.sha1),
+      sha256: fromBase64(sidecar.sha256),
+      uploaded: new Date(sidecar.uploaded),
+      httpMetadata: definedOnly({
+        ...httpMetadata,
+        cacheExpiry: cacheExpiry ? new Date(cacheExpiry) : undefined,
+      }),
+      customMetadata: sidecar.customMetadata,
+      storageClass: sidecar.storageClass,
+    };
+  }
+
+  /** Collects the keys of every file under `dir`. */
+  async #walk(dir: string): Promise<string[]> {
+    const bucketDir = join(this.#root, this.#bucket);
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        keys.push(...(await this.#walk(path)));
+      } else if (entry.isFile()) {
+        keys.push(relative(bucketDir, path).split(sep).join("/"));
+      }
+    }
+    return keys;
+  }
+
+  /** Removes the directories left empty by a delete, up to `stop`. */
+  async #prune(dir: string, stop: string): Promise<void> {
+    while (dir.startsWith(stop + sep)) {
+      try {
+        await rmdir(dir);
+      } catch {
+        // Not empty, or already removed
+        return;
+      }
+      dir = dirname(dir);
+    }
+  }
+}
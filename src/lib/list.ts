@@ -1,11 +1,18 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
 import type {
+  R2ListEntry,
+  R2ListIterateOptions,
   R2ListObjectContent,
   R2ListObjectsOptions,
   R2ListObjectsResponse,
   R2Options,
 } from "./types.ts";
 import { ListObjectsV2Command } from "@aws-sdk/client-s3";
-import { createClient } from "./create-client.ts";
+import { type ClientPool, sharedPool } from "./create-client.ts";
+import { withBlobErrors } from "./errors.ts";
+import { retryPolicy, withRetry } from "./retry.ts";
+import { isFileEndpoint, requireConfig, resolveConfig } from "./config.ts";
+import { FileSystemBucket } from "./fs-bucket.ts";
 
 export async function list(
   input?: R2ListObjectsOptions | null,
@@ -13,9 +20,15 @@ export async function list(
     R2Options,
     "accessKeyId" | "secretAccessKey" | "sessionToken" | "region" | "bucket" | "endpoint"
   >,
+  pool: ClientPool = sharedPool,
 ): Promise<R2ListObjectsResponse> {
-  const bucket = options?.bucket;
-  const client = createClient(options);
+  options = resolveConfig(options);
+  requireConfig(options, "bucket");
+  const bucket = options.bucket;
+  if (isFileEndpoint(options.endpoint)) {
+    return listBinding(new FileSystemBucket(options.endpoint!, bucket!).asBinding(), input);
+  }
+  const client = pool.get(options);
 
   const response = await client.send(
     new ListObjectsV2Command({
@@ -125,3 +138,112 @@ export async function list(
 
   return listObject;
 }
+
+/**
+ * Lists objects through the native R2 bucket binding of Cloudflare Workers,
+ * returning the same shape as {@link list}.
+ */
+export async function listBinding(
+  bucket: R2Bucket,
+  input?: R2ListObjectsOptions | null,
+  options?: Pick<R2Options, "retry">,
+): Promise<R2ListObjectsResponse> {
+  const response = await withBlobErrors({}, () =>
+    withRetry(
+      () =>
+        bucket.list({
+          prefix: input?.prefix,
+          cursor: input?.continuationToken,
+          delimiter: input?.delimiter,
+          limit: input?.maxKeys,
+          startAfter: input?.startAfter,
+        }),
+      retryPolicy(options?.retry),
+      "ListObjectsV2",
+    ),
+  );
+
+  const listObject: R2ListObjectsResponse = {
+    isTruncated: response.truncated,
+    keyCount: response.objects.length,
+    contents: response.objects.map((o) => ({
+      eTag: o.httpEtag,
+      key: o.key,
+      lastModified: o.uploaded.toISOString(),
+      size: o.size,
+      storageClass: o.storageClass as R2ListObjectContent["storageClass"],
+    })),
+  };
+
+  if (response.delimitedPrefixes.length > 0) {
+    listObject.commonPrefixes = response.delimitedPrefixes.map((prefix) => ({ prefix }));
+  }
+
+  if (input?.delimiter) {
+    listObject.delimiter = input.delimiter;
+  }
+
+  if (input?.continuationToken) {
+    listObject.continuationToken = input.continuationToken;
+  }
+
+  if (input?.startAfter) {
+    listObject.startAfter = input.startAfter;
+  }
+
+  if (input?.maxKeys !== undefined) {
+    listObject.maxKeys = input.maxKeys;
+  }
+
+  if (input?.prefix) {
+    listObject.prefix = input.prefix;
+  }
+
+  if (response.truncated) {
+    listObject.nextContinuationToken = response.cursor;
+  }
+
+  return listObject;
+}
+
+/**
+ * Yields every object and common prefix returned by `fetchPage`, following
+ * `nextContinuationToken` until the listing is exhausted or `limit` entries
+ * have been yielded.
+ */
+export async function* paginate(
+  fetchPage: (input: R2ListObjectsOptions) => Promise<R2ListObjectsResponse>,
+  input?: R2ListIterateOptions | null,
+): AsyncGenerator<R2ListEntry> {
+  const { limit, signal, ...pageInput } = input ?? {};
+  let remaining = limit ?? Infinity;
+  let continuationToken = pageInput.continuationToken;
+
+  while (remaining > 0) {
+    signal?.throwIfAborted();
+
+    const page = await fetchPage({
+      ...pageInput,
+      continuationToken,
+      maxKeys: Math.min(pageInput.maxKeys ?? 1000, remaining),
+    });
+
+    // Objects and common prefixes are returned in lexicographical order by the server
+    const entries: R2ListEntry[] = [...(page.contents ?? []), ...(page.commonPrefixes ?? [])];
+    entries.sort((a, b) => {
+      const left = "key" in a ? a.key : a.prefix;
+      const right = "key" in b ? b.key : b.prefix;
+      return left < right ? -1 : left > right ? 1 : 0;
+    });
+
+    for (const entry of entries) {
+      if (remaining <= 0) return;
+      signal?.throwIfAborted();
+      yield entry;
+      remaining--;
+    }
+
+    if (!page.isTruncated || !page.nextContinuationToken) return;
+    continuationToken = page.nextContinuationToken;
+  }
+}
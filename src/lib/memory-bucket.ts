@@ -0,0 +1,197 @@
+import type {
+  R2Bucket,
+  R2Object,
+  R2ObjectBody,
+  R2Objects,
+  R2Range,
+  R2UploadedPart,
+} from "@cloudflare/workers-types";
+import {
+  type BucketBody,
+  type ListOptions,
+  type ObjectRecord,
+  type PutOptions,
+  type RecordChecksums,
+  bodyRange,
+  conditionsHold,
+  definedOnly,
+  listKeys,
+  md5,
+  multipartEtag,
+  noSuchUpload,
+  readBody,
+  recordChecksums,
+  toHex,
+  toR2Object,
+  toR2ObjectBody,
+} from "./bucket-emulation.ts";
+import { BlobNotFoundError } from "./errors.ts";
+
+/** Start of the logical clock, so that timestamps are the same on every run. */
+const CLOCK_EPOCH = Date.UTC(2000, 0, 1);
+
+type StoredObject = ObjectRecord & { data: Uint8Array<ArrayBuffer> };
+
+type PendingUpload = {
+  key: string;
+  options?: PutOptions;
+  parts: Map<number, { data: Uint8Array<ArrayBuffer>; md5: ArrayBuffer }>;
+};
+
+/**
+ * An R2 bucket held in memory, implementing the subset of the Workers R2
+ * bucket binding used by {@link R2BindingFile}, so that files can be tested
+ * without an account.
+ *
+ * ETags are the MD5 of the content, as on R2, and objects are timestamped
+ * with a logical clock advancing one second per write from 2000-01-01 unless
+ * `now` is given, so that runs are reproducible.
+ */
+export class MemoryBucket {
+  readonly #objects = new Map<string, StoredObject>();
+  readonly #uploads = new Map<string, PendingUpload>();
+  readonly #now: () => Date;
+  #writes = 0;
+  #uploadIds = 0;
+
+  constructor(now?: () => Date) {
+    this.#now = now ?? (() => new Date(CLOCK_EPOCH + this.#writes * 1000));
+  }
+
+  /** Exposes the bucket with the type of the binding it stands in for. */
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+
+  /** Removes every object and pending multipart upload. */
+  clear(): void {
+    this.#objects.clear();
+    this.#uploads.clear();
+  }
+
+  async head(key: string): Promise<R2Object | null> {
+    const object = this.#objects.get(key);
+    return object ? toR2Object(object) : null;
+  }
+
+  async get(
+    key: string,
+    options?: { range?: R2Range; onlyIf?: PutOptions["onlyIf"] },
+  ): Promise<R2ObjectBody | R2Object | null> {
+    const object = this.#objects.get(key);
+    if (!object) {
+      return null;
+    }
+    // Like the binding, a failed precondition returns the object without its body
+    if (!conditionsHold(options?.onlyIf, object)) {
+      return toR2Object(object);
+    }
+
+    const { begin, end } = bodyRange(object, options?.range);
+    return toR2ObjectBody(object, options?.range, object.data.slice(begin, end));
+  }
+
+  async put(key: string, body: BucketBody, options?: PutOptions): Promise<R2Object | null> {
+    if (!conditionsHold(options?.onlyIf, this.#objects.get(key) ?? null)) {
+      return null;
+    }
+
+    const data = await readBody(body);
+    const checksums = recordChecksums(key, data, options);
+    return toR2Object(this.#store(key, data, toHex(checksums.md5!), options, checksums));
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.#objects.delete(key);
+    }
+  }
+
+  async list(options?: ListOptions): Promise<R2Objects> {
+    return listKeys(this.#objects.keys(), options, async (key) => {
+      const object = this.#objects.get(key);
+      return object ? toR2Object(object) : null;
+    });
+  }
+
+  async createMultipartUpload(key: string, options?: PutOptions) {
+    const uploadId = `upload-${++this.#uploadIds}`;
+    this.#uploads.set(uploadId, { key, options, parts: new Map() });
+    return { key, uploadId };
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const upload = () => {
+      const pending = this.#uploads.get(uploadId);
+      if (!pending || pending.key !== key) {
+        throw noSuchUpload(key, uploadId);
+      }
+      return pending;
+    };
+
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, body: BucketBody): Promise<R2UploadedPart> => {
+        const pending = upload();
+        const data = await readBody(body);
+        const hash = md5(data);
+        pending.parts.set(partNumber, { data, md5: hash });
+        return { partNumber, etag: toHex(hash) };
+      },
+      complete: async (parts: R2UploadedPart[]): Promise<R2Object> => {
+        const pending = upload();
+        const uploaded = parts.map(({ partNumber }) => {
+          const part = pending.parts.get(partNumber);
+          if (!part) {
+            throw new BlobNotFoundError(`Part ${partNumber} of ${uploadId} was not uploaded`, {
+              key,
+              statusCode: 400,
+            });
+          }
+          return part;
+        });
+        this.#uploads.delete(uploadId);
+
+        const data = new Uint8Array(
+          uploaded.reduce((size, part) => size + part.data.byteLength, 0),
+        );
+        let offset = 0;
+        for (const part of uploaded) {
+          data.set(part.data, offset);
+          offset += part.data.byteLength;
+        }
+
+        const etag = multipartEtag(uploaded.map((part) => part.md5));
+        return toR2Object(this.#store(key, data, etag, pending.options));
+      },
+      abort: async (): Promise<void> => {
+        upload();
+        this.#uploads.delete(uploadId);
+      },
+    };
+  }
+
+  #store(
+    key: string,
+    data: Uint8Array<ArrayBuffer>,
+    etag: string,
+    options?: PutOptions,
+    checksums?: RecordChecksums,
+  ): StoredObject {
+    const object: StoredObject = {
+      key,
+      version: String(++this.#writes),
+      size: data.byteLength,
+      data,
+      etag,
+      ...checksums,
+      uploaded: this.#now(),
+      httpMetadata: definedOnly(options?.httpMetadata),
+      customMetadata: { ...options?.customMetadata },
+      storageClass: options?.storageClass ?? "Standard",
+    };
+    this.#objects.set(key, object);
+    return object;
+  }
+}
@@ -0,0 +1,140 @@
+import type { R2Object } from "@cloudflare/workers-types";
+import type { R2ChecksumType, R2ObjectChecksums, R2Options, R2Stats } from "./types.ts";
+import type { HeadObjectCommandOutput } from "@aws-sdk/client-s3";
+
+type StatDetails = Omit<R2Stats, "type" | "etag" | "size" | "lastModified">;
+
+export class S3Stat implements R2Stats {
+  type: string;
+  etag: string;
+  size: number;
+  lastModified: Date;
+  metadata: Record<string, string>;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  contentLanguage?: string;
+  expires?: Date;
+  storageClass?: string;
+  versionId?: string;
+  checksums: R2ObjectChecksums;
+  checksumType?: R2ChecksumType;
+  constructor(
+    type?: string,
+    etag?: string,
+    size?: number,
+    lastModified?: Date,
+    details?: Partial<StatDetails>,
+  ) {
+    this.type = type ?? "";
+    this.etag = etag ?? "";
+    this.size = size ?? 0;
+    this.lastModified = lastModified ?? new Date();
+    this.metadata = details?.metadata ?? {};
+    this.cacheControl = details?.cacheControl;
+    this.contentDisposition = details?.contentDisposition;
+    this.contentEncoding = details?.contentEncoding;
+    this.contentLanguage = details?.contentLanguage;
+    this.expires = details?.expires;
+    this.storageClass = details?.storageClass;
+    this.versionId = details?.versionId;
+    this.checksums = details?.checksums ?? {};
+    this.checksumType = details?.checksumType;
+  }
+}
+
+/**
+ * Maps the object options of a write to the fields shared by the S3
+ * PutObject, CreateMultipartUpload and CopyObject commands.
+ */
+export const s3ObjectHeaders = (options?: R2Options) => ({
+  ContentType: options?.type,
+  CacheControl: options?.cacheControl,
+  ContentDisposition: options?.contentDisposition,
+  ContentEncoding: options?.contentEncoding,
+  ContentLanguage: options?.contentLanguage,
+  Expires: options?.expires,
+  Metadata: options?.metadata,
+});
+
+/**
+ * Maps the object options of a write to the R2 bucket binding put options.
+ */
+export const bindingObjectHeaders = (options?: R2Options) => ({
+  httpMetadata: {
+    contentType: options?.type,
+    cacheControl: options?.cacheControl,
+    contentDisposition: options?.contentDisposition,
+    contentEncoding: options?.contentEncoding,
+    contentLanguage: options?.contentLanguage,
+    cacheExpiry: options?.expires,
+  },
+  customMetadata: options?.metadata,
+});
+
+/**
+ * Creates an {@link R2Stats} from a HeadObject response.
+ */
+export function statFromHead(response: HeadObjectCommandOutput): S3Stat {
+  return new S3Stat(
+    response.ContentType,
+    response.ETag,
+    response.ContentLength,
+    response.LastModified,
+    {
+      metadata: response.Metadata,
+      cacheControl: response.CacheControl,
+      contentDisposition: response.ContentDisposition,
+      contentEncoding: response.ContentEncoding,
+      contentLanguage: response.ContentLanguage,
+      expires: response.Expires,
+      storageClass: response.StorageClass,
+      versionId: response.VersionId,
+      checksums: definedOnly({
+        crc32: response.ChecksumCRC32,
+        crc32c: response.ChecksumCRC32C,
+        crc64nvme: response.ChecksumCRC64NVME,
+        sha1: response.ChecksumSHA1,
+        sha256: response.ChecksumSHA256,
+      }),
+      checksumType: response.ChecksumType,
+    },
+  );
+}
+
+/**
+ * Creates an {@link R2Stats} from an object of the R2 bucket binding.
+ * Checksums are converted to base64, as the S3 API reports them.
+ */
+export function statFromObject(object: R2Object): S3Stat {
+  const { md5, sha1, sha256, sha384, sha512 } = object.checksums;
+
+  return new S3Stat(
+    object.httpMetadata?.contentType,
+    object.httpEtag,
+    object.size,
+    object.uploaded,
+    {
+      metadata: object.customMetadata,
+      cacheControl: object.httpMetadata?.cacheControl,
+      contentDisposition: object.httpMetadata?.contentDisposition,
+      contentEncoding: object.httpMetadata?.contentEncoding,
+      contentLanguage: object.httpMetadata?.contentLanguage,
+      expires: object.httpMetadata?.cacheExpiry,
+      storageClass: object.storageClass,
+      versionId: object.version,
+      checksums: definedOnly({
+        md5: md5 && toBase64(md5),
+        sha1: sha1 && toBase64(sha1),
+        sha256: sha256 && toBase64(sha256),
+        sha384: sha384 && toBase64(sha384),
+        sha512: sha512 && toBase64(sha512),
+      }),
+    },
+  );
+}
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const definedOnly = <T extends object>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
@@ -0,0 +1,27 @@
+const OBJECT_URL = /^(?:s3|r2):\/\/([^/]+)\/(.+)$/i;
+
+/**
+ * Splits a file path into its bucket and key.
+ *
+ * Plain paths are keys in `bucket`, while `s3://bucket/key` and
+ * `r2://bucket/key` URLs override it. The key is taken verbatim, so it may
+ * contain characters such as `?` and `#`.
+ *
+ * @example
+ *     parsePath("s3://my-bucket/file.txt", "default"); // { bucket: "my-bucket", key: "file.txt" }
+ *     parsePath("file.txt", "default"); // { bucket: "default", key: "file.txt" }
+ */
+export function parsePath(path: string, bucket?: string): { bucket: string; key: string } {
+  if (!/^(?:s3|r2):\/\//i.test(path)) {
+    return { bucket: bucket ?? "", key: path };
+  }
+
+  const match = OBJECT_URL.exec(path);
+  if (!match) {
+    throw new TypeError(
+      `Invalid object URL "${path}", expected s3://bucket/key or r2://bucket/key`,
+    );
+  }
+
+  return { bucket: match[1]!, key: match[2]! };
+}
@@ -0,0 +1,111 @@
+import type { R2PostPolicyCondition, R2PresignedPost, R2PresignPostOptions } from "./types.ts";
+import { parsePath } from "./path.ts";
+import { requireConfig, resolveConfig, withLocalCredentials } from "./config.ts";
+
+const DEFAULT_EXPIRES_IN = 3600;
+const ALGORITHM = "AWS4-HMAC-SHA256";
+const FILENAME_TEMPLATE = "${filename}";
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key as Uint8Array<ArrayBuffer>,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+/** Formats a date as the ISO 8601 basic format SigV4 expects, e.g. `20260101T000000Z`. */
+const amzDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Resolves the URL browsers post the form to, in path style unless the
+ * endpoint is virtual hosted and already names the bucket.
+ */
+function postUrl(bucket: string, options: R2PresignPostOptions): string {
+  const endpoint = options.endpoint!.replace(/\/+$/, "");
+  return options.virtualHostedStyle ? endpoint : `${endpoint}/${bucket}`;
+}
+
+/**
+ * Creates a presigned POST policy, letting browsers upload a file straight
+ * from an HTML form with the returned URL and fields.
+ *
+ * A key ending with `${filename}` accepts any key with the same prefix, the
+ * storage service substituting the name of the uploaded file.
+ */
+export async function presignPost(
+  path: string,
+  options?: R2PresignPostOptions,
+): Promise<R2PresignedPost> {
+  options = withLocalCredentials(resolveConfig(options));
+  const { bucket, key } = parsePath(path, options.bucket);
+  requireConfig({ ...options, bucket }, "accessKeyId", "secretAccessKey", "endpoint", "bucket");
+  const accessKeyId = options.accessKeyId!;
+  const secretAccessKey = options.secretAccessKey!;
+  const region = options.region ?? "auto";
+
+  const now = new Date();
+  const date = amzDate(now);
+  const scope = `${date.slice(0, 8)}/${region}/s3/aws4_request`;
+  const expiration = new Date(now.getTime() + (options?.expiresIn ?? DEFAULT_EXPIRES_IN) * 1000);
+
+  const fields: Record<string, string> = {
+    ...options?.fields,
+    key,
+    "X-Amz-Algorithm": ALGORITHM,
+    "X-Amz-Credential": `${accessKeyId}/${scope}`,
+    "X-Amz-Date": date,
+  };
+  if (options?.sessionToken) fields["X-Amz-Security-Token"] = options.sessionToken;
+  if (options?.acl) fields.acl = options.acl;
+  if (options?.type) fields["Content-Type"] = options.type;
+  for (const [name, value] of Object.entries(options?.metadata ?? {})) {
+    fields[`x-amz-meta-${name}`] = value;
+  }
+
+  // Every field sent with the form must be allowed by the policy
+  const conditions: R2PostPolicyCondition[] = [{ bucket }];
+  for (const [name, value] of Object.entries(fields)) {
+    conditions.push(
+      name === "key" && key.endsWith(FILENAME_TEMPLATE)
+        ? ["starts-with", "$key", key.slice(0, -FILENAME_TEMPLATE.length)]
+        : { [name]: value },
+    );
+  }
+  if (options?.maxSize !== undefined) {
+    conditions.push(["content-length-range", options.minSize ?? 0, options.maxSize]);
+  }
+  if (options?.contentTypePrefix !== undefined) {
+    conditions.push(["starts-with", "$Content-Type", options.contentTypePrefix]);
+  }
+  conditions.push(...(options?.conditions ?? []));
+
+  const document = JSON.stringify({ expiration: expiration.toISOString(), conditions });
+  const policy = btoa(String.fromCharCode(...encoder.encode(document)));
+
+  let signingKey = await hmac(encoder.encode(`AWS4${secretAccessKey}`), date.slice(0, 8));
+  for (const part of [region, "s3", "aws4_request"]) {
+    signingKey = await hmac(signingKey, part);
+  }
+
+  return {
+    url: postUrl(bucket, options),
+    fields: {
+      ...fields,
+      Policy: policy,
+      "X-Amz-Signature": toHex(await hmac(signingKey, policy)),
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * A byte range selected with {@link R2File.slice}.
+ * Negative offsets are relative to the end of the object, `end` is exclusive.
+ */
+export type ByteRange = { begin?: number; end?: number };
+
+/**
+ * An absolute byte range, in the same shape as the `R2Range` used by the
+ * Workers R2 binding.
+ */
+export type ResolvedRange = { offset: number; length?: number } | { suffix: number };
+
+/**
+ * Parses the overloaded `slice()` arguments and merges them into the range of
+ * an already sliced file.
+ */
+export function sliceRange(
+  range: ByteRange | undefined,
+  beginOrContentType?: number | string,
+  endOrContentType?: number | string,
+  contentType?: string,
+): { range?: ByteRange; type?: string } {
+  let begin: number | undefined;
+  let end: number | undefined;
+  let type: string | undefined;
+
+  // Parse arguments based on types
+  if (typeof beginOrContentType === "string") {
+    // slice(contentType)
+    type = beginOrContentType;
+  } else if (typeof beginOrContentType === "number") {
+    begin = beginOrContentType;
+    if (typeof endOrContentType === "string") {
+      // slice(begin, contentType)
+      type = endOrContentType;
+    } else if (typeof endOrContentType === "number") {
+      // slice(begin, end, contentType)
+      end = endOrContentType;
+      type = contentType;
+    }
+  }
+
+  if (begin === undefined && end === undefined) {
+    return { range, type };
+  }
+
+  // Merge with existing range if this is already a sliced file
+  if (range && [begin, end, range.begin, range.end].some((n) => n !== undefined && n < 0)) {
+    // Offsets relative to the end of the object cannot be combined without knowing its size
+    throw new RangeError("Negative offsets cannot be used when slicing an already sliced file");
+  }
+
+  const existingBegin = range?.begin ?? 0;
+  const existingEnd = range?.end;
+  const newRange: ByteRange = {};
+
+  if (begin !== undefined) {
+    newRange.begin = existingBegin + begin;
+  } else {
+    newRange.begin = existingBegin;
+  }
+
+  if (end !== undefined) {
+    if (existingEnd !== undefined) {
+      newRange.end = Math.min(existingBegin + end, existingEnd);
+    } else {
+      newRange.end = existingBegin + end;
+    }
+  } else {
+    newRange.end = existingEnd;
+  }
+
+  return { range: newRange, type };
+}
+
+/**
+ * Returns the size of the range when it can be known without a request.
+ */
+export function rangeSize(range: ByteRange | undefined): number {
+  const begin = range?.begin ?? 0;
+  const end = range?.end;
+  if (begin >= 0 && end !== undefined && end >= 0) {
+    return Math.max(end - begin, 0);
+  }
+  return NaN;
+}
+
+/**
+ * Whether the object size is needed to resolve the range, i.e. it mixes
+ * offsets relative to the end of the object in a way that cannot be expressed
+ * as a suffix range.
+ */
+export function rangeNeedsSize(range: ByteRange | undefined): boolean {
+  if (!range) return false;
+  const begin = range.begin ?? 0;
+  if (begin < 0 && range.end === undefined) return false;
+  return begin < 0 || (range.end !== undefined && range.end < 0);
+}
+
+/**
+ * Resolves a slice range into an absolute range.
+ *
+ * Returns `undefined` when the whole object is selected and `null` when the
+ * range is empty. `size` must be given when {@link rangeNeedsSize} is true.
+ */
+export function resolveRange(
+  range: ByteRange | undefined,
+  size?: number,
+): ResolvedRange | null | undefined {
+  if (!range) {
+    return undefined;
+  }
+
+  let begin = range.begin ?? 0;
+  let end = range.end;
+
+  if (begin < 0 && end === undefined) {
+    // Suffix range: the last N bytes of the object
+    return { suffix: -begin };
+  }
+
+  if (size !== undefined) {
+    begin = begin < 0 ? Math.max(size + begin, 0) : Math.min(begin, size);
+    if (end !== undefined) {
+      end = end < 0 ? Math.max(size + end, 0) : Math.min(end, size);
+    }
+  } else if (rangeNeedsSize(range)) {
+    throw new RangeError("The object size is required to resolve negative slice offsets");
+  }
+
+  if (end === undefined) {
+    return begin === 0 ? undefined : { offset: begin };
+  }
+
+  if (end <= begin) {
+    return null;
+  }
+
+  return { offset: begin, length: end - begin };
+}
+
+/**
+ * Formats a resolved range as an HTTP Range header value.
+ */
+export function toHttpRange(range: ResolvedRange): string {
+  if ("suffix" in range) {
+    return `bytes=-${range.suffix}`;
+  }
+  if (range.length === undefined) {
+    return `bytes=${range.offset}-`;
+  }
+  return `bytes=${range.offset}-${range.offset + range.length - 1}`;
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "../runtime/node-compat.ts";
+import { createTestServer } from "./test-server.ts";
+import type { R2TestServer } from "./types.ts";
+
+let server: R2TestServer;
+let proxy: Server;
+let endpoint: string;
+let puts = 0;
+
+before(async () => {
+  server = await createTestServer();
+  const target = new URL(server.options.endpoint);
+  // Forwards requests to the test server, and drops the response of every PUT once it was processed
+  proxy = createServer((req, res) => {
+    if (req.method === "PUT") puts++;
+    const forwarded = request(
+      {
+        host: target.hostname,
+        port: target.port,
+        method: req.method,
+        path: req.url,
+        headers: req.headers,
+      },
+      (response) => {
+        if (req.method === "PUT") {
+          response.resume();
+          response.on("end", () => res.socket?.destroy());
+          return;
+        }
+        res.writeHead(response.statusCode ?? 500, response.headers);
+        response.pipe(res);
+      },
+    );
+    req.pipe(forwarded);
+  });
+  await new Promise<void>((resolve) => proxy.listen(0, "127.0.0.1", resolve));
+  endpoint = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  proxy.closeAllConnections();
+  await new Promise((resolve) => proxy.close(resolve));
+  await server.close();
+});
+
+const client = () =>
+  new Client({
+    ...server.options,
+    endpoint,
+    bucket: "retry",
+    keepAlive: false,
+    retry: { retries: 3, baseDelay: 1 },
+  });
+
+test("a conditional write whose response is lost is sent only once", async () => {
+  puts = 0;
+  await assert.rejects(client().write("created.txt", "a", { ifNoneMatch: "*" }));
+  assert.equal(puts, 1);
+  // The first attempt was processed, so that a retry would have failed its precondition
+  assert.equal(await client().file("created.txt").text(), "a");
+});
+
+test("an unconditional write whose response is lost is retried", async () => {
+  puts = 0;
+  await assert.rejects(client().write("plain.txt", "a"));
+  assert.equal(puts, 4);
+});
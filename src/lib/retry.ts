@@ -0,0 +1,182 @@
+import type { R2RetryContext, R2RetryOptions } from "./types.ts";
+
+const DEFAULT_RETRY = 3;
+const MAX_RETRY = 255;
+const DEFAULT_BASE_DELAY = 100;
+const DEFAULT_MAX_DELAY = 20_000;
+
+/**
+ * Operations whose retry after a lost response can have a different outcome
+ * than the first attempt, e.g. creating a second multipart upload.
+ */
+const NON_IDEMPOTENT_OPERATIONS = new Set(["CreateMultipartUpload", "CompleteMultipartUpload"]);
+
+/**
+ * Writes that are not idempotent when conditional: once a lost attempt has
+ * written, e.g. with `ifNoneMatch: "*"`, the retry fails its precondition.
+ */
+const WRITE_OPERATIONS = new Set(["PutObject", "CopyObject", "DeleteObject"]);
+
+const RETRYABLE_ERROR_NAMES = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "ThrottledException",
+  "TooManyRequestsException",
+  "RequestThrottled",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "InternalError",
+  "ServiceUnavailable",
+  "TimeoutError",
+]);
+
+const THROTTLING_ERROR_NAMES = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "ThrottledException",
+  "TooManyRequestsException",
+  "RequestThrottled",
+]);
+
+const RETRYABLE_SOCKET_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** R2 binding error codes: internal error, service unavailable, too many requests. */
+const RETRYABLE_R2_CODES = new Set([10001, 10043, 10058]);
+
+type ErrorShape = {
+  name?: string;
+  code?: string | number;
+  cause?: unknown;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: { throttling?: boolean };
+};
+
+const statusOf = (error: ErrorShape) => error.$metadata?.httpStatusCode;
+
+/**
+ * Whether the server asked the client to slow down. Throttled requests were
+ * not processed, so they are safe to retry even when not idempotent.
+ */
+export function isThrottlingError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  const e = error as ErrorShape;
+  return (
+    statusOf(e) === 429 ||
+    THROTTLING_ERROR_NAMES.has(e.name ?? "") ||
+    e.$retryable?.throttling === true ||
+    e.code === 10058
+  );
+}
+
+/**
+ * Whether the request never reached the server, so that it is safe to
+ * retry even when not idempotent.
+ */
+const isConnectionRefused = (error: ErrorShape) =>
+  error.code === "ECONNREFUSED" || (error.cause as ErrorShape | undefined)?.code === "ECONNREFUSED";
+
+/**
+ * Classifies transient errors: 5xx responses, throttling and timeouts, and
+ * connection failures such as socket resets.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  const e = error as ErrorShape;
+  const status = statusOf(e);
+
+  if (status !== undefined && (status >= 500 || status === 429)) return true;
+  if (RETRYABLE_ERROR_NAMES.has(e.name ?? "") || e.$retryable) return true;
+  if (typeof e.code === "number") return RETRYABLE_R2_CODES.has(e.code);
+  if (RETRYABLE_SOCKET_CODES.has(e.code ?? "")) return true;
+
+  const cause = e.cause as ErrorShape | undefined;
+  return typeof cause?.code === "string" && RETRYABLE_SOCKET_CODES.has(cause.code);
+}
+
+/**
+ * A resolved retry configuration, see {@link R2RetryOptions}.
+ */
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+  retryNonIdempotent: boolean;
+  shouldRetry?: R2RetryOptions["shouldRetry"];
+  onRetry?: R2RetryOptions["onRetry"];
+}
+
+/**
+ * Resolves the `retry` option into a {@link RetryPolicy}, applying defaults.
+ */
+export function retryPolicy(retry?: number | R2RetryOptions): RetryPolicy {
+  const options = typeof retry === "number" ? { retries: retry } : (retry ?? {});
+
+  return {
+    retries: Math.min(Math.max(options.retries ?? DEFAULT_RETRY, 0), MAX_RETRY),
+    baseDelay: options.baseDelay ?? DEFAULT_BASE_DELAY,
+    maxDelay: options.maxDelay ?? DEFAULT_MAX_DELAY,
+    retryNonIdempotent: options.retryNonIdempotent ?? false,
+    shouldRetry: options.shouldRetry,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Whether an operation can safely be sent more than once, given whether it
+ * has preconditions.
+ */
+export const isIdempotent = (operation: string, conditional = false) => {
+  const name = operation.replace(/Command$/, "");
+  return !NON_IDEMPOTENT_OPERATIONS.has(name) && !(conditional && WRITE_OPERATIONS.has(name));
+};
+
+/**
+ * Runs `fn`, retrying failures with exponential backoff and full jitter.
+ *
+ * Errors are retried when {@link isRetryableError} classifies them as
+ * transient, unless the operation is not idempotent, in which case only
+ * errors proving the request was not processed are retried. Writes with
+ * preconditions are not idempotent either. The `shouldRetry` hook of the policy overrides this classification.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  operation: string,
+  conditional = false,
+): Promise<T> {
+  const idempotent = isIdempotent(operation, conditional);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > policy.retries) throw error;
+
+      const context: R2RetryContext = { attempt, operation, idempotent };
+      const retry =
+        (await policy.shouldRetry?.(error, context)) ??
+        (isRetryableError(error) &&
+          (idempotent ||
+            policy.retryNonIdempotent ||
+            isThrottlingError(error) ||
+            isConnectionRefused(error as ErrorShape)));
+
+      if (!retry) throw error;
+
+      const delay =
+        Math.random() * Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+      await policy.onRetry?.(error, { ...context, delay });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
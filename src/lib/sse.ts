@@ -0,0 +1,65 @@
+import type { R2CopyOptions, R2Options } from "./types.ts";
+
+const KEY_SIZE = 32;
+
+/** The headers carrying an SSE-C key, which S3 only accepts as headers. */
+export const SSE_CUSTOMER_HEADERS = [
+  "x-amz-server-side-encryption-customer-algorithm",
+  "x-amz-server-side-encryption-customer-key",
+  "x-amz-server-side-encryption-customer-key-md5",
+];
+
+/**
+ * Decodes an SSE-C key given raw or base64 encoded.
+ */
+function customerKey(key: string | Uint8Array): Buffer {
+  let bytes: Buffer;
+  if (typeof key !== "string") {
+    bytes = Buffer.from(key.buffer, key.byteOffset, key.byteLength);
+  } else {
+    const decoded = Buffer.from(key, "base64");
+    bytes = decoded.byteLength === KEY_SIZE ? decoded : Buffer.from(key);
+  }
+  if (bytes.byteLength !== KEY_SIZE) {
+    throw new TypeError(`The SSE-C key must be ${KEY_SIZE} bytes, got ${bytes.byteLength}`);
+  }
+  return bytes;
+}
+
+/**
+ * Maps the SSE-C key of the options to the fields of the S3 commands
+ * addressing the object. The SDK adds the MD5 digest of the key.
+ */
+export function s3CustomerKey(options?: R2Options) {
+  if (!options?.sseCustomerKey) {
+    return {};
+  }
+  return {
+    SSECustomerAlgorithm: options.sseCustomerAlgorithm ?? "AES256",
+    SSECustomerKey: customerKey(options.sseCustomerKey).toString("base64"),
+  };
+}
+
+/**
+ * Maps the SSE-C key of the source of a copy to the fields of the S3 copy commands.
+ */
+export function s3CopySourceCustomerKey(options?: R2CopyOptions) {
+  if (!options?.sourceSseCustomerKey) {
+    return {};
+  }
+  return {
+    CopySourceSSECustomerAlgorithm: options.sourceSseCustomerAlgorithm ?? "AES256",
+    CopySourceSSECustomerKey: customerKey(options.sourceSseCustomerKey).toString("base64"),
+  };
+}
+
+/**
+ * Maps the SSE-C key of the options to the `ssecKey` of the R2 binding,
+ * which only supports AES256.
+ */
+export function bindingCustomerKey(options?: R2Options): { ssecKey?: string } {
+  if (!options?.sseCustomerKey) {
+    return {};
+  }
+  return { ssecKey: customerKey(options.sseCustomerKey).toString("hex") };
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import { Client } from "../runtime/node-compat.ts";
+import { createTestServer } from "./test-server.ts";
+import type { R2TestServer } from "./types.ts";
+
+let server: R2TestServer;
+let root: string;
+
+before(async () => {
+  server = await createTestServer();
+  root = await mkdtemp(join(tmpdir(), "blob-"));
+});
+
+after(async () => {
+  await server.close();
+  await rm(root, { recursive: true, force: true });
+});
+
+const client = (bucket: string) => new Client({ ...server.options, bucket });
+
+test("uploads leave out the excluded paths", async () => {
+  const dir = join(root, "upload");
+  await mkdir(join(dir, "node_modules", "pkg"), { recursive: true });
+  await mkdir(join(dir, "assets"), { recursive: true });
+  await writeFile(join(dir, "index.html"), "<html></html>");
+  await writeFile(join(dir, "assets", "app.js"), "app");
+  await writeFile(join(dir, "assets", "debug.log"), "log");
+  await writeFile(join(dir, "node_modules", "pkg", "index.js"), "pkg");
+
+  const bucket = client("upload");
+  const plan = await bucket.sync(dir, "site", {
+    exclude: ["node_modules", "**/*.log"],
+    dryRun: true,
+  });
+  assert.deepEqual(
+    plan.changes.map((change) => [change.action, change.reason, change.key]),
+    [
+      ["upload", "new", "site/assets/app.js"],
+      ["upload", "new", "site/index.html"],
+    ],
+  );
+  assert.equal((await bucket.list()).keyCount ?? 0, 0);
+
+  await bucket.sync(dir, "site", { exclude: ["node_modules", "**/*.log"] });
+  const again = await bucket.sync(dir, "site", {
+    exclude: ["node_modules", "**/*.log"],
+    dryRun: true,
+  });
+  assert.deepEqual(again.changes, []);
+  assert.deepEqual(again.unchanged, ["site/assets/app.js", "site/index.html"]);
+});
+
+test("downloads skip the keys that would escape or alias the local directory", async () => {
+  const bucket = client("download");
+  await bucket.write("site/index.html", "<html></html>");
+  await bucket.write("site/../escaped.txt", "escaped");
+  await bucket.write("site/a/../../escaped.txt", "escaped");
+  await bucket.write("site/a//b.txt", "aliased");
+  await bucket.write("site/./c.txt", "aliased");
+
+  const dir = join(root, "download", "site");
+  const result = await bucket.sync(dir, "site", { direction: "download" });
+  assert.deepEqual(
+    result.changes.map((change) => change.key),
+    ["site/index.html"],
+  );
+  assert.deepEqual(result.skipped.sort(), [
+    "site/../escaped.txt",
+    "site/./c.txt",
+    "site/a/../../escaped.txt",
+    "site/a//b.txt",
+  ]);
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(await readdir(join(root, "download")), ["site"]);
+  assert.deepEqual(await readdir(dir), ["index.html"]);
+});
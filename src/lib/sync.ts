@@ -0,0 +1,353 @@
+import type {
+  R2ListObjectContent,
+  R2Options,
+  R2SyncChange,
+  R2SyncOptions,
+  R2SyncResult,
+} from "./types.ts";
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readdir, rename, rm, stat, utimes } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { pipeline } from "node:stream/promises";
+import type { DirectorySource } from "./directory.ts";
+import { deleteMany } from "./delete.ts";
+import { paginate } from "./list.ts";
+import { contentTypeFor } from "./mime.ts";
+
+const DEFAULT_CONCURRENCY = 5;
+
+type LocalFile = { path: string; size: number; mtime: Date };
+
+/** The options of the client that change what is stored, so that sizes and ETags differ. */
+type StorageOptions = Pick<R2Options, "compress" | "encryption" | "sseCustomerKey">;
+
+const isMissing = (error: unknown) =>
+  ["ENOENT", "ENOTDIR"].includes((error as NodeJS.ErrnoException).code ?? "");
+
+/**
+ * Compiles a glob pattern of {@link R2SyncOptions.exclude} to a regular
+ * expression matching a whole path.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` also matches no directory at all
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Creates the test of the paths left out of a sync. A path is excluded when
+ * it or one of its directories matches.
+ */
+function excluder(exclude: R2SyncOptions["exclude"]): (path: string) => boolean {
+  const tests = (exclude ?? []).map((pattern) => {
+    if (pattern instanceof RegExp) {
+      return (path: string) => pattern.test(path);
+    }
+    const regExp = globToRegExp(pattern.replace(/^\/+|\/+$/g, ""));
+    if (!pattern.includes("/")) {
+      return (path: string) => path.split("/").some((segment) => regExp.test(segment));
+    }
+    return (path: string) => {
+      const segments = path.split("/");
+      return segments.some((_, i) => regExp.test(segments.slice(0, i + 1).join("/")));
+    };
+  });
+  return (path) => tests.some((test) => test(path));
+}
+
+/**
+ * Lists the files of a local directory by their path relative to it,
+ * separated by `/`. A missing directory has no files when it is `optional`.
+ */
+async function listLocal(
+  dir: string,
+  excluded: (path: string) => boolean,
+  optional: boolean,
+): Promise<Map<string, LocalFile>> {
+  const files = new Map<string, LocalFile>();
+  let entries;
+  try {
+    entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  } catch (error) {
+    if (optional && isMissing(error)) return files;
+    throw error;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const path = join(entry.parentPath, entry.name);
+    const name = relative(dir, path).split(sep).join("/");
+    if (excluded(name)) continue;
+    const { size, mtime } = await stat(path);
+    files.set(name, { path, size, mtime });
+  }
+  return files;
+}
+
+/**
+ * Resolves the local path of a key relative to the prefix, or `undefined`
+ * when the key cannot be stored in the directory. Empty, `.` and `..`
+ * segments are rejected, since they would alias or escape other paths.
+ */
+function localPath(dir: string, name: string): string | undefined {
+  const segments = name.split("/");
+  if (
+    segments.some(
+      (segment) => segment === "" || segment === "." || segment === ".." || segment.includes(sep),
+    )
+  ) {
+    return undefined;
+  }
+  const path = resolve(dir, ...segments);
+  const inside = relative(resolve(dir), path);
+  return inside && !inside.startsWith("..") && !isAbsolute(inside) ? path : undefined;
+}
+
+/**
+ * Lists the objects under a prefix by their key relative to it. Directory
+ * markers are left out, and the keys that cannot be stored in the local
+ * directory are reported as `skipped`.
+ */
+async function listRemote(
+  source: DirectorySource,
+  prefix: string,
+  dir: string,
+  excluded: (path: string) => boolean,
+  signal?: AbortSignal,
+): Promise<{ objects: Map<string, R2ListObjectContent>; skipped: string[] }> {
+  const objects = new Map<string, R2ListObjectContent>();
+  const skipped: string[] = [];
+  for await (const entry of paginate(source.list, { prefix, signal })) {
+    if (!("key" in entry) || entry.key.endsWith("/")) continue;
+    const name = entry.key.slice(prefix.length);
+    if (excluded(name)) continue;
+    if (localPath(dir, name) === undefined) {
+      skipped.push(entry.key);
+      continue;
+    }
+    objects.set(name, entry);
+  }
+  return { objects, skipped };
+}
+
+async function md5File(path: string): Promise<string> {
+  const hash = createHash("md5");
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/** Modification times in seconds, the precision of S3 listings. */
+const seconds = (time: Date | string | undefined) =>
+  time === undefined ? 0 : Math.floor(new Date(time).getTime() / 1000);
+
+/**
+ * Tells whether the source side of a file differs from its destination.
+ *
+ * Files of different sizes differ. Files of the same size are compared by
+ * content when the ETag is the MD5 digest of the object, which it is not for
+ * multipart uploads, and otherwise by whether the source was modified after
+ * the destination. When the client compresses or encrypts the content, the
+ * stored size and ETag cannot be compared and only the times are.
+ */
+async function differs(
+  local: LocalFile,
+  remote: R2ListObjectContent,
+  direction: "upload" | "download",
+  transformed: boolean,
+): Promise<boolean> {
+  if (!transformed) {
+    if (local.size !== remote.size) return true;
+    const etag = (remote.eTag ?? "").replaceAll('"', "").toLowerCase();
+    if (/^[0-9a-f]{32}$/.test(etag)) {
+      return (await md5File(local.path)) !== etag;
+    }
+  }
+
+  const localTime = seconds(local.mtime);
+  const remoteTime = seconds(remote.lastModified);
+  return direction === "upload" ? localTime > remoteTime : remoteTime > localTime;
+}
+
+/** Runs `task` on each item, with up to `concurrency` in flight. */
+async function forEachConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+async function download(source: DirectorySource, key: string, path: string, uploaded?: string) {
+  await mkdir(dirname(path), { recursive: true });
+  // Downloaded next to the file and moved into place, so that a failure keeps the previous file
+  const temp = `${path}.${randomUUID()}.partial`;
+  try {
+    await pipeline(source.file(key).stream(), createWriteStream(temp));
+    if (uploaded) {
+      // The local file takes the time of the object, so that the next sync sees them as the same
+      await utimes(temp, new Date(uploaded), new Date(uploaded));
+    }
+    await rename(temp, path);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+}
+
+async function upload(source: DirectorySource, key: string, path: string) {
+  const type = contentTypeFor(path);
+  await source.file(key, type ? { type } : undefined).write(createReadStream(path));
+}
+
+/**
+ * Synchronizes a local directory with the objects under a prefix, in the
+ * direction of the options, and reports the changes.
+ *
+ * Transfers run before deletions, so that the destination never misses a
+ * file while it is updated. A change that fails is reported in `errors`
+ * instead of rejecting, so that the other changes are still applied.
+ */
+export async function sync(
+  dir: string,
+  prefix: string,
+  source: DirectorySource,
+  options?: R2SyncOptions & StorageOptions,
+): Promise<R2SyncResult> {
+  const direction = options?.direction ?? "upload";
+  if (direction !== "upload" && direction !== "download") {
+    throw new TypeError(`Unknown sync direction "${direction}"`);
+  }
+  const dryRun = options?.dryRun ?? false;
+  const signal = options?.signal;
+  const transformed = Boolean(options?.compress || options?.encryption || options?.sseCustomerKey);
+  prefix = prefix.replace(/^\/+/, "");
+  if (prefix && !prefix.endsWith("/")) {
+    prefix += "/";
+  }
+
+  const excluded = excluder(options?.exclude);
+  const [locals, { objects: remotes, skipped }] = await Promise.all([
+    // A mistyped source directory must not be mistaken for an empty one, which would delete everything
+    listLocal(dir, excluded, direction === "download"),
+    listRemote(source, prefix, dir, excluded, signal),
+  ]);
+  const names = direction === "upload" ? [...locals.keys()] : [...remotes.keys()];
+
+  const changes: R2SyncChange[] = [];
+  const unchanged: string[] = [];
+  // Names are those of local files or of keys that passed localPath()
+  const pathOf = (name: string) => localPath(dir, name)!;
+
+  for (const name of names.sort()) {
+    signal?.throwIfAborted();
+    const key = `${prefix}${name}`;
+    const local = locals.get(name);
+    const remote = remotes.get(name);
+    const size = direction === "upload" ? local!.size : (remote!.size ?? 0);
+
+    let reason: R2SyncChange["reason"] | undefined = "new";
+    if (local && remote) {
+      reason = (await differs(local, remote, direction, transformed)) ? "changed" : undefined;
+    }
+    if (reason) {
+      changes.push({ action: direction, reason, key, path: local?.path ?? pathOf(name), size });
+    } else {
+      unchanged.push(key);
+    }
+  }
+
+  if (options?.delete) {
+    const extras =
+      direction === "upload"
+        ? [...remotes]
+            .filter(([name]) => !locals.has(name))
+            .map(([name, object]) => [name, object.size ?? 0] as const)
+        : [...locals]
+            .filter(([name]) => !remotes.has(name))
+            .map(([name, file]) => [name, file.size] as const);
+    for (const [name, size] of extras) {
+      changes.push({
+        action: "delete",
+        reason: "extra",
+        key: `${prefix}${name}`,
+        path: pathOf(name),
+        size,
+      });
+    }
+  }
+  changes.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+  const result: R2SyncResult = { direction, dryRun, changes, unchanged, skipped, errors: [] };
+  if (dryRun) {
+    return result;
+  }
+
+  const fail = (change: R2SyncChange, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = error instanceof Error ? error.name : undefined;
+    result.errors.push({ ...change, code, message });
+  };
+
+  const transfers = changes.filter((change) => change.action !== "delete");
+  const deletions = changes.filter((change) => change.action === "delete");
+  const concurrency = Math.max(options?.concurrency ?? DEFAULT_CONCURRENCY, 1);
+
+  await forEachConcurrently(transfers, concurrency, async (change) => {
+    signal?.throwIfAborted();
+    try {
+      if (change.action === "upload") {
+        await upload(source, change.key, change.path);
+      } else {
+        const name = change.key.slice(prefix.length);
+        await download(source, change.key, change.path, remotes.get(name)?.lastModified);
+      }
+    } catch (error) {
+      fail(change, error);
+    }
+  });
+
+  signal?.throwIfAborted();
+  if (direction === "upload") {
+    const { errors } = await deleteMany(
+      deletions.map((change) => change.key),
+      source.deleteChunk,
+    );
+    const byKey = new Map(deletions.map((change) => [change.key, change]));
+    for (const { key, code, message } of errors) {
+      result.errors.push({ ...byKey.get(key)!, code, message });
+    }
+  } else {
+    await forEachConcurrently(deletions, concurrency, async (change) => {
+      try {
+        await rm(change.path, { force: true });
+      } catch (error) {
+        fail(change, error);
+      }
+    });
+  }
+
+  result.errors.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  return result;
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { createTestServer } from "./test-server.ts";
+import type { R2TestServer } from "./types.ts";
+
+let server: R2TestServer;
+
+before(async () => {
+  server = await createTestServer();
+});
+
+after(() => server.close());
+
+test("malformed escapes in the path are answered with an InvalidURI error", async () => {
+  const response = await fetch(`${server.options.endpoint}/bucket/%E0%A4%A`);
+  assert.equal(response.status, 400);
+  assert.match(await response.text(), /<Code>InvalidURI<\/Code>/);
+});
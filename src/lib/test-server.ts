@@ -0,0 +1,1189 @@
+import type { R2HTTPMetadata, R2Object, R2ObjectBody, R2Range } from "@cloudflare/workers-types";
+import type {
+  R2ChecksumAlgorithm,
+  R2ChecksumType,
+  R2Conditions,
+  R2TestServer,
+  R2TestServerOptions,
+} from "./types.ts";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { bodyRange, type PutOptions } from "./bucket-emulation.ts";
+import { checksumHeader, checksumOf, compositeChecksum } from "./checksum.ts";
+import { evaluateConditions } from "./conditions.ts";
+import { BlobError, BlobInvalidRangeError, BlobNotFoundError } from "./errors.ts";
+import { MemoryBucket } from "./memory-bucket.ts";
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const DEFAULT_MAX_KEYS = 1000;
+const XML_NAMESPACE = "http://s3.amazonaws.com/doc/2006-03-01/";
+const CHECKSUM_ALGORITHMS: R2ChecksumAlgorithm[] = [
+  "CRC32",
+  "CRC32C",
+  "CRC64NVME",
+  "SHA1",
+  "SHA256",
+];
+
+/** Query parameters overriding the headers of a GetObject response. */
+const RESPONSE_OVERRIDES = [
+  "content-type",
+  "content-language",
+  "expires",
+  "cache-control",
+  "content-disposition",
+  "content-encoding",
+];
+
+/**
+ * An error response of the S3 API, with the code SDKs map to their errors.
+ */
+class S3Error extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const noSuchKey = () => new S3Error(404, "NoSuchKey", "The specified key does not exist.");
+const preconditionFailed = () =>
+  new S3Error(
+    412,
+    "PreconditionFailed",
+    "At least one of the pre-conditions you specified did not hold",
+  );
+
+/** Maps the errors of the in-memory bucket to S3 error responses. */
+function toS3Error(error: unknown): S3Error {
+  if (error instanceof S3Error) return error;
+  if (error instanceof BlobInvalidRangeError) {
+    return new S3Error(416, "InvalidRange", "The requested range is not satisfiable");
+  }
+  if (error instanceof BlobNotFoundError && error.statusCode === 404) {
+    return new S3Error(404, "NoSuchUpload", error.message);
+  }
+  if (error instanceof BlobError && error.statusCode === 400) {
+    return new S3Error(400, "InvalidPart", error.message);
+  }
+  return new S3Error(500, "InternalError", error instanceof Error ? error.message : String(error));
+}
+
+const escapeXml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c]!,
+  );
+
+const unescapeXml = (value: string) =>
+  value.replace(
+    /&(amp|lt|gt|quot|apos);/g,
+    (_, name: string) =>
+      ({ amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" })[name as "amp"] ?? name,
+  );
+
+/** Formats an element, or nothing when the value is not set. */
+const element = (name: string, value: string | number | boolean | undefined) =>
+  value === undefined || value === "" ? "" : `<${name}>${escapeXml(String(value))}</${name}>`;
+
+/** Collects the text of every `name` element of an XML document. */
+const elements = (xml: string, name: string) =>
+  [...xml.matchAll(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, "g"))].map((m) =>
+    unescapeXml(m[1]!),
+  );
+
+const xmlDocument = (root: string, content: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<${root} xmlns="${XML_NAMESPACE}">${content}</${root}>`;
+
+/** Encodes a value as SigV4 canonical requests expect, per RFC 3986. */
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+const sha256 = (data: string | Uint8Array) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+const signingKey = (secretAccessKey: string, date: string, region: string) =>
+  ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${secretAccessKey}`, date), region),
+  );
+
+const sameSignature = (expected: string, actual: string) =>
+  expected.length === actual.length && timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+
+/** Parses an `x-amz-date` value, e.g. `20260101T000000Z`. */
+const parseAmzDate = (value: string) =>
+  new Date(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z"));
+
+const parseHttpDate = (value: string | undefined) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/** Parses a single `bytes=` range; invalid ranges are ignored, as S3 does. */
+function parseRange(header: string | undefined): R2Range | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header ?? "");
+  if (!match || (!match[1] && !match[2])) return undefined;
+  if (!match[1]) return { suffix: Number(match[2]) };
+  const offset = Number(match[1]);
+  return match[2] ? { offset, length: Number(match[2]) - offset + 1 } : { offset };
+}
+
+/**
+ * Decodes an `aws-chunked` body, sent by SDKs that stream checksums in a
+ * trailer: `<hex size>[;chunk-signature=...]\r\n<data>\r\n`, until a chunk of 0
+ * followed by the trailing headers.
+ */
+function decodeAwsChunked(body: Buffer): { payload: Buffer; trailers: Record<string, string> } {
+  const chunks: Buffer[] = [];
+  const trailers: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf("\r\n", offset);
+    if (lineEnd === -1) break;
+    const size = parseInt(body.subarray(offset, lineEnd).toString().split(";")[0]!, 16);
+    if (!size) {
+      for (const line of body
+        .subarray(lineEnd + 2)
+        .toString()
+        .split("\r\n")) {
+        const separator = line.indexOf(":");
+        if (separator > 0) {
+          trailers[line.slice(0, separator).trim().toLowerCase()] = line
+            .slice(separator + 1)
+            .trim();
+        }
+      }
+      break;
+    }
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return { payload: Buffer.concat(chunks), trailers };
+}
+
+const header = (req: IncomingMessage, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(",") : value;
+};
+
+/** Reads the headers and metadata of an object from a write request. */
+function putOptions(req: IncomingMessage): PutOptions {
+  const httpMetadata: R2HTTPMetadata = {};
+  const contentType = header(req, "content-type");
+  if (contentType) httpMetadata.contentType = contentType;
+  const cacheControl = header(req, "cache-control");
+  if (cacheControl) httpMetadata.cacheControl = cacheControl;
+  const contentDisposition = header(req, "content-disposition");
+  if (contentDisposition) httpMetadata.contentDisposition = contentDisposition;
+  const contentLanguage = header(req, "content-language");
+  if (contentLanguage) httpMetadata.contentLanguage = contentLanguage;
+  // aws-chunked only describes how the request body is sent, not the object
+  const contentEncoding = header(req, "content-encoding")
+    ?.split(",")
+    .map((encoding) => encoding.trim())
+    .filter((encoding) => encoding && encoding !== "aws-chunked")
+    .join(", ");
+  if (contentEncoding) httpMetadata.contentEncoding = contentEncoding;
+  const expires = parseHttpDate(header(req, "expires"));
+  if (expires) httpMetadata.cacheExpiry = expires;
+
+  const customMetadata: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name.startsWith("x-amz-meta-") && value !== undefined) {
+      customMetadata[name.slice("x-amz-meta-".length)] = String(value);
+    }
+  }
+
+  return {
+    httpMetadata,
+    customMetadata,
+    storageClass: header(req, "x-amz-storage-class") ?? "STANDARD",
+  };
+}
+
+/** Reads the preconditions of a request, under `prefix` for copy sources. */
+function requestConditions(req: IncomingMessage, prefix = "if-"): R2Conditions {
+  return {
+    ifMatch: header(req, `${prefix}match`),
+    ifNoneMatch: header(req, `${prefix}none-match`),
+    ifModifiedSince: parseHttpDate(header(req, `${prefix}modified-since`)),
+    ifUnmodifiedSince: parseHttpDate(header(req, `${prefix}unmodified-since`)),
+  };
+}
+
+/**
+ * Evaluates preconditions like S3, comparing dates to the second since HTTP
+ * dates have no milliseconds. Writes fail on any unmet precondition.
+ */
+function checkConditions(conditions: R2Conditions, object: R2Object | null, write = false) {
+  const result = evaluateConditions(
+    conditions,
+    object && {
+      etag: object.etag,
+      lastModified: new Date(Math.floor(object.uploaded.getTime() / 1000) * 1000),
+    },
+  );
+  if (result === "not-modified" && !write) {
+    return "not-modified";
+  }
+  if (result) {
+    throw preconditionFailed();
+  }
+  return undefined;
+}
+
+function objectHeaders(object: R2Object): Record<string, string> {
+  const headers: Record<string, string> = {
+    etag: object.httpEtag,
+    "last-modified": object.uploaded.toUTCString(),
+    "accept-ranges": "bytes",
+    "content-type": object.httpMetadata?.contentType ?? "binary/octet-stream",
+  };
+  const metadata = object.httpMetadata;
+  if (metadata?.cacheControl) headers["cache-control"] = metadata.cacheControl;
+  if (metadata?.contentDisposition) headers["content-disposition"] = metadata.contentDisposition;
+  if (metadata?.contentEncoding) headers["content-encoding"] = metadata.contentEncoding;
+  if (metadata?.contentLanguage) headers["content-language"] = metadata.contentLanguage;
+  if (metadata?.cacheExpiry) headers.expires = metadata.cacheExpiry.toUTCString();
+  if (object.storageClass !== "STANDARD") headers["x-amz-storage-class"] = object.storageClass;
+  for (const [name, value] of Object.entries(object.customMetadata ?? {})) {
+    headers[`x-amz-meta-${name}`] = value;
+  }
+  return headers;
+}
+
+/** The parsed parts of a request that handlers need. */
+type S3Request = {
+  req: IncomingMessage;
+  bucketName: string;
+  bucket: MemoryBucket;
+  key: string;
+  query: URLSearchParams;
+  body: Buffer;
+  /** The trailing headers of an `aws-chunked` body */
+  trailers: Record<string, string>;
+};
+
+/** The S3 checksum of an object, which the in-memory bucket does not model. */
+type StoredChecksum = { algorithm: R2ChecksumAlgorithm; type: R2ChecksumType; value: string };
+
+type PendingChecksums = {
+  algorithm: R2ChecksumAlgorithm;
+  type: R2ChecksumType;
+  parts: Map<number, string>;
+};
+
+const badDigest = (algorithm: R2ChecksumAlgorithm) =>
+  new S3Error(
+    400,
+    "BadDigest",
+    `The ${algorithm} you specified did not match the calculated checksum.`,
+  );
+
+/**
+ * Verifies the checksum sent with a body, in a header or a trailer, and
+ * returns it.
+ */
+function requestChecksum(
+  { req, trailers }: S3Request,
+  data: Uint8Array,
+): StoredChecksum | undefined {
+  for (const algorithm of CHECKSUM_ALGORITHMS) {
+    const name = checksumHeader(algorithm);
+    const value = trailers[name] ?? header(req, name);
+    if (value === undefined) continue;
+    if (checksumOf(algorithm, data) !== value) {
+      throw badDigest(algorithm);
+    }
+    return { algorithm, type: "FULL_OBJECT", value };
+  }
+  return undefined;
+}
+
+const checksumAlgorithm = (value: string | undefined) => {
+  const algorithm = value?.toUpperCase() as R2ChecksumAlgorithm | undefined;
+  if (algorithm && !CHECKSUM_ALGORITHMS.includes(algorithm)) {
+    throw new S3Error(400, "InvalidRequest", `Unsupported checksum algorithm: ${value}`);
+  }
+  return algorithm;
+};
+
+const checksumHeaders = (checksum: StoredChecksum | undefined): Record<string, string> =>
+  checksum
+    ? { [checksumHeader(checksum.algorithm)]: checksum.value, "x-amz-checksum-type": checksum.type }
+    : {};
+
+const checksumElements = (checksum: StoredChecksum | undefined) =>
+  checksum
+    ? element(`Checksum${checksum.algorithm}`, checksum.value) +
+      element("ChecksumType", checksum.type)
+    : "";
+
+const SSE_CUSTOMER_PREFIX = "x-amz-server-side-encryption-customer-";
+
+/**
+ * Reads the SSE-C key of a request, under `prefix` for copy sources, and
+ * returns the MD5 digest identifying it. Objects are not actually encrypted.
+ */
+function requestCustomerKey(
+  req: IncomingMessage,
+  prefix = SSE_CUSTOMER_PREFIX,
+): string | undefined {
+  const algorithm = header(req, `${prefix}algorithm`);
+  const key = header(req, `${prefix}key`);
+  if (algorithm === undefined && key === undefined) {
+    return undefined;
+  }
+  if (algorithm !== "AES256") {
+    throw new S3Error(
+      400,
+      "InvalidEncryptionAlgorithmError",
+      "The encryption request you specified is not valid. The valid value is AES256.",
+    );
+  }
+  const bytes = Buffer.from(key ?? "", "base64");
+  if (bytes.byteLength !== 32) {
+    throw new S3Error(
+      400,
+      "InvalidArgument",
+      "The secret key was invalid for the specified algorithm.",
+    );
+  }
+  const md5 = createHash("md5").update(bytes).digest("base64");
+  if (header(req, `${prefix}key-md5`) !== md5) {
+    throw new S3Error(
+      400,
+      "InvalidArgument",
+      "The calculated MD5 hash of the key did not match the hash that was provided.",
+    );
+  }
+  return md5;
+}
+
+/** Checks that a request gives the SSE-C key the object, or upload, was created with. */
+function checkCustomerKey(stored: string | undefined, given: string | undefined) {
+  if (stored === given) return;
+  if (!given) {
+    throw new S3Error(
+      400,
+      "InvalidRequest",
+      "The object was stored using a form of Server Side Encryption. The correct parameters must be provided to retrieve the object.",
+    );
+  }
+  if (!stored) {
+    throw new S3Error(
+      400,
+      "InvalidRequest",
+      "The encryption parameters are not applicable to this object.",
+    );
+  }
+  throw new S3Error(403, "AccessDenied", "Access Denied");
+}
+
+const customerKeyHeaders = (md5: string | undefined): Record<string, string> =>
+  md5
+    ? { [`${SSE_CUSTOMER_PREFIX}algorithm`]: "AES256", [`${SSE_CUSTOMER_PREFIX}key-md5`]: md5 }
+    : {};
+
+type S3Response = {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+};
+
+/**
+ * Starts an S3-compatible server in the current process, implementing the
+ * subset of the S3 API used by `Client`: objects, multipart uploads, copies,
+ * listings, batch deletes and POST policy uploads, with SigV4 signatures of
+ * requests and presigned URLs verified. Checksums sent with uploads are
+ * verified, stored and returned like S3 does, and SSE-C keys are required
+ * on every request on the objects created with one.
+ *
+ * Buckets are created on first use and held in memory.
+ *
+ * @example
+ *     const server = await createTestServer();
+ *     const bucket = new Client({ ...server.options, bucket: "test" });
+ *
+ *     await bucket.write("hello.txt", "Hello World");
+ *     await server.close();
+ */
+export async function createTestServer(options?: R2TestServerOptions): Promise<R2TestServer> {
+  const accessKeyId = options?.accessKeyId ?? "test";
+  const secretAccessKey = options?.secretAccessKey ?? "test";
+  const region = options?.region ?? "auto";
+  const buckets = new Map<string, MemoryBucket>();
+  // Checksums are kept per version of an object, so that overwritten objects lose theirs
+  const checksums = new Map<string, { version: string; checksum: StoredChecksum }>();
+  const uploads = new Map<string, PendingChecksums>();
+  // The MD5 digests of the SSE-C keys of objects, per version like checksums, and of uploads
+  const customerKeys = new Map<string, { version: string; md5: string }>();
+  const uploadKeys = new Map<string, string>();
+  let requests = 0;
+
+  const objectId = (bucketName: string, key: string) => `${bucketName}/${key}`;
+
+  const checksumFor = (bucketName: string, object: R2Object) => {
+    const stored = checksums.get(objectId(bucketName, object.key));
+    return stored?.version === object.version ? stored.checksum : undefined;
+  };
+
+  const storeChecksum = (
+    bucketName: string,
+    object: R2Object,
+    checksum: StoredChecksum | undefined,
+  ) => {
+    if (checksum) {
+      checksums.set(objectId(bucketName, object.key), { version: object.version, checksum });
+    }
+  };
+
+  const customerKeyFor = (bucketName: string, object: R2Object) => {
+    const stored = customerKeys.get(objectId(bucketName, object.key));
+    return stored?.version === object.version ? stored.md5 : undefined;
+  };
+
+  const storeCustomerKey = (bucketName: string, object: R2Object, md5: string | undefined) => {
+    if (md5) {
+      customerKeys.set(objectId(bucketName, object.key), { version: object.version, md5 });
+    }
+  };
+
+  const bucketFor = (name: string) => {
+    let bucket = buckets.get(name);
+    if (!bucket) {
+      bucket = new MemoryBucket(options?.now);
+      buckets.set(name, bucket);
+    }
+    return bucket;
+  };
+
+  /**
+   * Verifies the SigV4 signature of a request, from its `Authorization`
+   * header or the query of a presigned URL, and returns its payload.
+   */
+  function authenticate(req: IncomingMessage, rawPath: string, rawQuery: string, body: Buffer) {
+    const query = new URLSearchParams(rawQuery);
+    const authorization = header(req, "authorization");
+    const presigned = query.get("X-Amz-Signature");
+
+    let credential: string;
+    let signedHeaders: string[];
+    let signature: string;
+    let amzDate: string;
+    let payloadHash: string;
+
+    if (authorization) {
+      const match =
+        /^AWS4-HMAC-SHA256 Credential=([^,]+),\s*SignedHeaders=([^,]+),\s*Signature=([0-9a-f]+)$/.exec(
+          authorization,
+        );
+      if (!match) {
+        throw new S3Error(
+          400,
+          "AuthorizationHeaderMalformed",
+          "The authorization header is malformed",
+        );
+      }
+      [, credential, , signature] = match as unknown as [string, string, string, string];
+      signedHeaders = match[2]!.split(";");
+      amzDate = header(req, "x-amz-date") ?? "";
+      payloadHash = header(req, "x-amz-content-sha256") ?? "";
+    } else if (presigned) {
+      if (query.get("X-Amz-Algorithm") !== ALGORITHM) {
+        throw new S3Error(400, "AuthorizationQueryParametersError", "Unsupported algorithm");
+      }
+      credential = query.get("X-Amz-Credential") ?? "";
+      signedHeaders = (query.get("X-Amz-SignedHeaders") ?? "").split(";");
+      signature = presigned;
+      amzDate = query.get("X-Amz-Date") ?? "";
+      payloadHash = query.get("X-Amz-Content-Sha256") ?? UNSIGNED_PAYLOAD;
+
+      const expires = Number(query.get("X-Amz-Expires") ?? 0);
+      if (parseAmzDate(amzDate).getTime() + expires * 1000 < Date.now()) {
+        throw new S3Error(403, "AccessDenied", "Request has expired");
+      }
+    } else {
+      throw new S3Error(403, "AccessDenied", "Anonymous access is not allowed");
+    }
+
+    const [keyId, date, scopeRegion] = credential.split("/");
+    if (keyId !== accessKeyId) {
+      throw new S3Error(
+        403,
+        "InvalidAccessKeyId",
+        "The AWS Access Key Id you provided does not exist in our records.",
+      );
+    }
+
+    const canonicalQuery = rawQuery
+      .split("&")
+      .filter(Boolean)
+      .map((pair) => {
+        const [name = "", value = ""] = pair.split("=", 2).map((part) => decodeURIComponent(part));
+        return [uriEncode(name), uriEncode(value)] as const;
+      })
+      .filter(([name]) => name !== "X-Amz-Signature")
+      .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join("&");
+    const canonicalHeaders = signedHeaders
+      .map((name) => `${name}:${(header(req, name) ?? "").trim().replace(/\s+/g, " ")}\n`)
+      .join("");
+    const canonicalRequest = [
+      req.method,
+      rawPath,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${scopeRegion}/s3/aws4_request`;
+    const stringToSign = [ALGORITHM, amzDate, scope, sha256(canonicalRequest)].join("\n");
+    const expected = hmac(signingKey(secretAccessKey, date!, scopeRegion!), stringToSign).toString(
+      "hex",
+    );
+    if (!sameSignature(expected, signature)) {
+      throw new S3Error(
+        403,
+        "SignatureDoesNotMatch",
+        "The request signature we calculated does not match the signature you provided.",
+      );
+    }
+
+    const { payload, trailers } =
+      payloadHash.startsWith("STREAMING-") ||
+      /aws-chunked/.test(header(req, "content-encoding") ?? "")
+        ? decodeAwsChunked(body)
+        : { payload: body, trailers: {} };
+    if (/^[0-9a-f]{64}$/.test(payloadHash) && sha256(payload) !== payloadHash) {
+      throw new S3Error(
+        400,
+        "XAmzContentSHA256Mismatch",
+        "The provided 'x-amz-content-sha256' header does not match what was computed.",
+      );
+    }
+    return { payload, trailers };
+  }
+
+  async function getObject({
+    req,
+    bucketName,
+    bucket,
+    key,
+    query,
+  }: S3Request): Promise<S3Response> {
+    const object = await bucket.head(key);
+    if (!object) {
+      throw noSuchKey();
+    }
+
+    const customerKey = customerKeyFor(bucketName, object);
+    checkCustomerKey(customerKey, requestCustomerKey(req));
+
+    const range = parseRange(header(req, "range"));
+    const headers = { ...objectHeaders(object), ...customerKeyHeaders(customerKey) };
+    // Like S3, checksums are only returned on request and for the whole object
+    if (header(req, "x-amz-checksum-mode") === "ENABLED" && !range) {
+      Object.assign(headers, checksumHeaders(checksumFor(bucketName, object)));
+    }
+    if (checkConditions(requestConditions(req), object) === "not-modified") {
+      return {
+        status: 304,
+        headers: { etag: headers.etag!, "last-modified": headers["last-modified"]! },
+      };
+    }
+    for (const name of RESPONSE_OVERRIDES) {
+      const value = query.get(`response-${name}`);
+      if (value !== null) headers[name] = value;
+    }
+
+    if (req.method === "HEAD") {
+      return { status: 200, headers: { ...headers, "content-length": String(object.size) } };
+    }
+
+    const result = (await bucket.get(key, { range })) as R2ObjectBody;
+    const data = new Uint8Array(await result.arrayBuffer());
+    if (!range) {
+      return { status: 200, headers, body: data };
+    }
+
+    const { begin, end } = bodyRange(object, range);
+    return {
+      status: 206,
+      headers: { ...headers, "content-range": `bytes ${begin}-${end - 1}/${object.size}` },
+      body: data,
+    };
+  }
+
+  async function putObject(request: S3Request): Promise<S3Response> {
+    const { req, bucketName, bucket, key, body } = request;
+    const checksum = requestChecksum(request, body);
+    const customerKey = requestCustomerKey(req);
+    checkConditions(requestConditions(req), await bucket.head(key), true);
+    const object = await bucket.put(key, body, putOptions(req));
+    storeChecksum(bucketName, object!, checksum);
+    storeCustomerKey(bucketName, object!, customerKey);
+    return {
+      status: 200,
+      headers: {
+        etag: object!.httpEtag,
+        ...checksumHeaders(checksum),
+        ...customerKeyHeaders(customerKey),
+      },
+    };
+  }
+
+  /** Reads the object named by `x-amz-copy-source`, checking its preconditions. */
+  async function copySource(req: IncomingMessage) {
+    const source = decodeURIComponent(header(req, "x-amz-copy-source") ?? "")
+      .replace(/^\//, "")
+      .replace(/\?versionId=.*$/, "");
+    const separator = source.indexOf("/");
+    const bucketName = source.slice(0, separator);
+    const object = await bucketFor(bucketName).get(source.slice(separator + 1));
+    if (!object) {
+      throw noSuchKey();
+    }
+    checkConditions(requestConditions(req, "x-amz-copy-source-if-"), object, true);
+    checkCustomerKey(
+      customerKeyFor(bucketName, object),
+      requestCustomerKey(req, "x-amz-copy-source-server-side-encryption-customer-"),
+    );
+    return { object: object as R2ObjectBody, checksum: checksumFor(bucketName, object) };
+  }
+
+  async function copyObject({ req, bucketName, bucket, key }: S3Request): Promise<S3Response> {
+    const { object: source, checksum: sourceChecksum } = await copySource(req);
+    const customerKey = requestCustomerKey(req);
+    const replace = header(req, "x-amz-metadata-directive") === "REPLACE";
+    const data = new Uint8Array(await source.arrayBuffer());
+    // Copies are checksummed anew, with the algorithm of the source unless one is given
+    const algorithm =
+      checksumAlgorithm(header(req, "x-amz-checksum-algorithm")) ?? sourceChecksum?.algorithm;
+    const checksum: StoredChecksum | undefined = algorithm && {
+      algorithm,
+      type: "FULL_OBJECT",
+      value: checksumOf(algorithm, data),
+    };
+    const object = await bucket.put(
+      key,
+      data,
+      replace
+        ? putOptions(req)
+        : {
+            httpMetadata: source.httpMetadata,
+            customMetadata: source.customMetadata,
+            storageClass: header(req, "x-amz-storage-class") ?? source.storageClass,
+          },
+    );
+
+    storeChecksum(bucketName, object!, checksum);
+    storeCustomerKey(bucketName, object!, customerKey);
+
+    return {
+      status: 200,
+      headers: customerKeyHeaders(customerKey),
+      body: xmlDocument(
+        "CopyObjectResult",
+        element("ETag", object!.httpEtag) +
+          element("LastModified", object!.uploaded.toISOString()) +
+          checksumElements(checksum),
+      ),
+    };
+  }
+
+  async function createMultipartUpload({ req, bucketName, bucket, key }: S3Request) {
+    const algorithm = checksumAlgorithm(header(req, "x-amz-checksum-algorithm"));
+    const type = (header(req, "x-amz-checksum-type") ??
+      (algorithm === "CRC64NVME" ? "FULL_OBJECT" : "COMPOSITE")) as R2ChecksumType;
+    if (algorithm?.startsWith("SHA") && type === "FULL_OBJECT") {
+      throw new S3Error(
+        400,
+        "InvalidRequest",
+        `The FULL_OBJECT checksum type cannot be used with the ${algorithm} checksum algorithm.`,
+      );
+    }
+
+    const customerKey = requestCustomerKey(req);
+    const { uploadId } = await bucket.createMultipartUpload(key, putOptions(req));
+    if (algorithm) {
+      uploads.set(objectId(bucketName, uploadId), { algorithm, type, parts: new Map() });
+    }
+    if (customerKey) {
+      uploadKeys.set(objectId(bucketName, uploadId), customerKey);
+    }
+    return {
+      status: 200,
+      headers: {
+        ...(algorithm && { "x-amz-checksum-algorithm": algorithm, "x-amz-checksum-type": type }),
+        ...customerKeyHeaders(customerKey),
+      },
+      body: xmlDocument(
+        "InitiateMultipartUploadResult",
+        element("Bucket", bucketName) + element("Key", key) + element("UploadId", uploadId),
+      ),
+    };
+  }
+
+  async function uploadPart(request: S3Request): Promise<S3Response> {
+    const { req, bucketName, bucket, key, query, body } = request;
+    const uploadId = query.get("uploadId")!;
+    const upload = bucket.resumeMultipartUpload(key, uploadId);
+    const partNumber = Number(query.get("partNumber"));
+    const pending = uploads.get(objectId(bucketName, uploadId));
+    // Parts are encrypted with the key of the upload, so each must give it
+    checkCustomerKey(uploadKeys.get(objectId(bucketName, uploadId)), requestCustomerKey(req));
+
+    /** Records the checksum of a part, for the algorithm of the upload. */
+    const partChecksum = (data: Uint8Array): StoredChecksum | undefined => {
+      if (!pending) return undefined;
+      const value = checksumOf(pending.algorithm, data);
+      pending.parts.set(partNumber, value);
+      return { algorithm: pending.algorithm, type: pending.type, value };
+    };
+
+    if (!header(req, "x-amz-copy-source")) {
+      requestChecksum(request, body);
+      const part = await upload.uploadPart(partNumber, body);
+      const checksum = partChecksum(body);
+      return {
+        status: 200,
+        headers: {
+          etag: `"${part.etag}"`,
+          ...(checksum && { [checksumHeader(checksum.algorithm)]: checksum.value }),
+        },
+      };
+    }
+
+    // UploadPartCopy
+    const { object: source } = await copySource(req);
+    let data = new Uint8Array(await source.arrayBuffer());
+    const range = /^bytes=(\d+)-(\d+)$/.exec(header(req, "x-amz-copy-source-range") ?? "");
+    if (range) {
+      data = data.slice(Number(range[1]), Number(range[2]) + 1);
+    }
+    const part = await upload.uploadPart(partNumber, data);
+    const checksum = partChecksum(data);
+    return {
+      status: 200,
+      body: xmlDocument(
+        "CopyPartResult",
+        element("ETag", `"${part.etag}"`) +
+          element("LastModified", new Date().toISOString()) +
+          (checksum ? element(`Checksum${checksum.algorithm}`, checksum.value) : ""),
+      ),
+    };
+  }
+
+  async function completeMultipartUpload(request: S3Request): Promise<S3Response> {
+    const { req, bucketName, bucket, key, query, body } = request;
+    const xml = body.toString();
+    const uploadId = query.get("uploadId")!;
+    const pending = uploads.get(objectId(bucketName, uploadId));
+    const parts = [...xml.matchAll(/<Part>([\s\S]*?)<\/Part>/g)].map((match) => {
+      const partNumber = Number(elements(match[1]!, "PartNumber")[0]);
+      if (pending) {
+        const given = elements(match[1]!, `Checksum${pending.algorithm}`)[0];
+        const uploaded = pending.parts.get(partNumber);
+        if (given !== undefined && given !== uploaded) {
+          throw new S3Error(
+            400,
+            "InvalidPart",
+            `The ${pending.algorithm} checksum of part ${partNumber} does not match.`,
+          );
+        }
+      }
+      return { partNumber, etag: (elements(match[1]!, "ETag")[0] ?? "").replace(/"/g, "") };
+    });
+
+    checkConditions(requestConditions(req), await bucket.head(key), true);
+    const object = await bucket.resumeMultipartUpload(key, uploadId).complete(parts);
+    const customerKey = uploadKeys.get(objectId(bucketName, uploadId));
+    uploads.delete(objectId(bucketName, uploadId));
+    uploadKeys.delete(objectId(bucketName, uploadId));
+
+    let checksum: StoredChecksum | undefined;
+    if (pending?.type === "COMPOSITE") {
+      const partChecksums = parts.map(({ partNumber }) => pending.parts.get(partNumber) ?? "");
+      checksum = {
+        algorithm: pending.algorithm,
+        type: "COMPOSITE",
+        value: compositeChecksum(pending.algorithm, partChecksums),
+      };
+    } else if (pending) {
+      const data = new Uint8Array(await ((await bucket.get(key)) as R2ObjectBody).arrayBuffer());
+      checksum = requestChecksum(request, data) ?? {
+        algorithm: pending.algorithm,
+        type: "FULL_OBJECT",
+        value: checksumOf(pending.algorithm, data),
+      };
+    }
+    storeChecksum(bucketName, object, checksum);
+    storeCustomerKey(bucketName, object, customerKey);
+
+    return {
+      status: 200,
+      headers: customerKeyHeaders(customerKey),
+      body: xmlDocument(
+        "CompleteMultipartUploadResult",
+        element("Location", `/${bucketName}/${key}`) +
+          element("Bucket", bucketName) +
+          element("Key", key) +
+          element("ETag", object.httpEtag) +
+          checksumElements(checksum),
+      ),
+    };
+  }
+
+  async function deleteObject({ req, bucketName, bucket, key, query }: S3Request) {
+    const uploadId = query.get("uploadId");
+    if (uploadId !== null) {
+      await bucket.resumeMultipartUpload(key, uploadId).abort();
+      uploads.delete(objectId(bucketName, uploadId));
+      uploadKeys.delete(objectId(bucketName, uploadId));
+      return { status: 204 };
+    }
+
+    checkConditions(requestConditions(req), await bucket.head(key), true);
+    await bucket.delete(key);
+    return { status: 204 };
+  }
+
+  async function deleteObjects({ bucket, body }: S3Request): Promise<S3Response> {
+    const xml = body.toString();
+    const keys = elements(xml, "Key");
+    await bucket.delete(keys);
+
+    const quiet = elements(xml, "Quiet")[0] === "true";
+    return {
+      status: 200,
+      body: xmlDocument(
+        "DeleteResult",
+        quiet ? "" : keys.map((key) => `<Deleted>${element("Key", key)}</Deleted>`).join(""),
+      ),
+    };
+  }
+
+  async function listObjects({ bucketName, bucket, query }: S3Request): Promise<S3Response> {
+    const prefix = query.get("prefix") ?? "";
+    const delimiter = query.get("delimiter") ?? undefined;
+    const maxKeys = Math.min(Number(query.get("max-keys") ?? DEFAULT_MAX_KEYS), DEFAULT_MAX_KEYS);
+    const continuationToken = query.get("continuation-token") ?? undefined;
+    const startAfter = query.get("start-after") ?? undefined;
+    const encode = query.get("encoding-type") === "url" ? uriEncode : (value: string) => value;
+
+    const result =
+      maxKeys > 0
+        ? await bucket.list({
+            prefix,
+            delimiter,
+            limit: maxKeys,
+            startAfter,
+            // Tokens are opaque to clients, as on S3
+            cursor: continuationToken && Buffer.from(continuationToken, "base64url").toString(),
+          })
+        : { objects: [], delimitedPrefixes: [], truncated: false as const };
+
+    const owner =
+      query.get("fetch-owner") === "true"
+        ? `<Owner>${element("ID", accessKeyId)}${element("DisplayName", accessKeyId)}</Owner>`
+        : "";
+    const contents = result.objects
+      .map((object) => {
+        const checksum = checksumFor(bucketName, object);
+        return `<Contents>${element("Key", encode(object.key))}${element(
+          "LastModified",
+          object.uploaded.toISOString(),
+        )}${element("ETag", object.httpEtag)}${element("Size", object.size)}${element(
+          "StorageClass",
+          object.storageClass,
+        )}${element("ChecksumAlgorithm", checksum?.algorithm)}${element(
+          "ChecksumType",
+          checksum?.type,
+        )}${owner}</Contents>`;
+      })
+      .join("");
+    const commonPrefixes = result.delimitedPrefixes
+      .map((common) => `<CommonPrefixes>${element("Prefix", encode(common))}</CommonPrefixes>`)
+      .join("");
+
+    return {
+      status: 200,
+      body: xmlDocument(
+        "ListBucketResult",
+        element("Name", bucketName) +
+          `<Prefix>${escapeXml(encode(prefix))}</Prefix>` +
+          element("Delimiter", delimiter && encode(delimiter)) +
+          element("MaxKeys", maxKeys) +
+          element("KeyCount", result.objects.length + result.delimitedPrefixes.length) +
+          element("IsTruncated", result.truncated) +
+          element("EncodingType", query.get("encoding-type") ?? undefined) +
+          element("ContinuationToken", continuationToken) +
+          element(
+            "NextContinuationToken",
+            result.truncated ? Buffer.from(result.cursor).toString("base64url") : undefined,
+          ) +
+          element("StartAfter", startAfter && encode(startAfter)) +
+          contents +
+          commonPrefixes,
+      ),
+    };
+  }
+
+  /**
+   * Handles a browser form upload, verifying the signature of its POST policy
+   * and that every field and the file meet its conditions.
+   */
+  async function postObject({ req, bucketName, bucket, body }: S3Request): Promise<S3Response> {
+    const form = await new Response(new Uint8Array(body), {
+      headers: { "content-type": header(req, "content-type") ?? "" },
+    }).formData();
+
+    const fields = new Map<string, string>();
+    let file: File | undefined;
+    for (const [name, value] of form) {
+      if (typeof value === "string") fields.set(name.toLowerCase(), value);
+      else file = value;
+    }
+    if (!file) {
+      throw new S3Error(
+        400,
+        "InvalidArgument",
+        "POST requires exactly one file upload per request.",
+      );
+    }
+
+    const policy = fields.get("policy") ?? "";
+    const [keyId, date, scopeRegion] = (fields.get("x-amz-credential") ?? "").split("/");
+    if (keyId !== accessKeyId) {
+      throw new S3Error(
+        403,
+        "InvalidAccessKeyId",
+        "The AWS Access Key Id you provided does not exist in our records.",
+      );
+    }
+    const expected = hmac(
+      signingKey(secretAccessKey, date ?? "", scopeRegion ?? ""),
+      policy,
+    ).toString("hex");
+    if (!sameSignature(expected, fields.get("x-amz-signature") ?? "")) {
+      throw new S3Error(
+        403,
+        "SignatureDoesNotMatch",
+        "The request signature we calculated does not match the signature you provided.",
+      );
+    }
+
+    const document = JSON.parse(Buffer.from(policy, "base64").toString("utf8")) as {
+      expiration: string;
+      conditions: (Record<string, string> | [string, string | number, string | number])[];
+    };
+    const denied = (reason: string) =>
+      new S3Error(403, "AccessDenied", `Invalid according to Policy: ${reason}`);
+    if (new Date(document.expiration).getTime() < Date.now()) {
+      throw denied("Policy expired.");
+    }
+
+    const key = (fields.get("key") ?? "").replace("${filename}", file.name);
+    const value = (name: string) =>
+      name === "bucket" ? bucketName : name === "key" ? key : fields.get(name);
+    const covered = new Set(["bucket"]);
+
+    for (const condition of document.conditions) {
+      if (!Array.isArray(condition)) {
+        for (const [name, expected] of Object.entries(condition)) {
+          covered.add(name.toLowerCase());
+          if (value(name.toLowerCase()) !== expected) {
+            throw denied(`Policy Condition failed: ["eq", "$${name}", "${expected}"]`);
+          }
+        }
+        continue;
+      }
+
+      const [operator, target, expected] = condition;
+      if (operator === "content-length-range") {
+        if (file.size < Number(target) || file.size > Number(expected)) {
+          throw new S3Error(
+            400,
+            file.size > Number(expected) ? "EntityTooLarge" : "EntityTooSmall",
+            "Your proposed upload does not match the size allowed by the policy",
+          );
+        }
+        continue;
+      }
+
+      const name = String(target).replace(/^\$/, "").toLowerCase();
+      covered.add(name);
+      const actual = value(name) ?? "";
+      const holds =
+        operator === "starts-with" ? actual.startsWith(String(expected)) : actual === expected;
+      if (!holds) {
+        throw denied(`Policy Condition failed: ["${operator}", "${target}", "${expected}"]`);
+      }
+    }
+
+    for (const name of fields.keys()) {
+      const exempt = ["policy", "x-amz-signature", "file"].includes(name);
+      if (!exempt && !name.startsWith("x-ignore-") && !covered.has(name)) {
+        throw denied(`Extra input fields: ${name}`);
+      }
+    }
+
+    const customMetadata: Record<string, string> = {};
+    for (const [name, metadata] of fields) {
+      if (name.startsWith("x-amz-meta-"))
+        customMetadata[name.slice("x-amz-meta-".length)] = metadata;
+    }
+    const contentType = fields.get("content-type");
+    const object = await bucket.put(key, await file.arrayBuffer(), {
+      httpMetadata: contentType ? { contentType } : {},
+      customMetadata,
+      storageClass: "STANDARD",
+    });
+
+    const location = `/${bucketName}/${key}`;
+    const status = Number(fields.get("success_action_status") ?? 204);
+    if (status === 201) {
+      return {
+        status,
+        headers: { etag: object!.httpEtag, location },
+        body: xmlDocument(
+          "PostResponse",
+          element("Location", location) +
+            element("Bucket", bucketName) +
+            element("Key", key) +
+            element("ETag", object!.httpEtag),
+        ),
+      };
+    }
+    return { status: status === 200 ? 200 : 204, headers: { etag: object!.httpEtag, location } };
+  }
+
+  function route(request: S3Request): Promise<S3Response> {
+    const { req, key, query } = request;
+    const method = req.method;
+
+    if (!key) {
+      if (method === "GET" && query.get("list-type") === "2") return listObjects(request);
+      if (method === "POST" && query.has("delete")) return deleteObjects(request);
+      if (method === "POST") return postObject(request);
+      // Buckets exist on first use
+      if (method === "HEAD" || method === "PUT") return Promise.resolve({ status: 200 });
+    } else {
+      if (method === "GET" || method === "HEAD") return getObject(request);
+      if (method === "PUT" && query.has("uploadId")) return uploadPart(request);
+      if (method === "PUT" && header(req, "x-amz-copy-source")) return copyObject(request);
+      if (method === "PUT") return putObject(request);
+      if (method === "POST" && query.has("uploads")) return createMultipartUpload(request);
+      if (method === "POST" && query.has("uploadId")) return completeMultipartUpload(request);
+      if (method === "DELETE") return deleteObject(request);
+    }
+
+    throw new S3Error(501, "NotImplemented", `${method} is not implemented by the test server`);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const requestId = (++requests).toString(16).toUpperCase().padStart(16, "0");
+    const [rawPath = "/", rawQuery = ""] = (req.url ?? "/").split(/\?(.*)/s);
+    const segments = rawPath.split("/");
+    let key = "";
+
+    let response: S3Response;
+    try {
+      let bucketName;
+      try {
+        bucketName = decodeURIComponent(segments[1] ?? "");
+        key = decodeURIComponent(segments.slice(2).join("/"));
+      } catch {
+        throw new S3Error(400, "InvalidURI", "Couldn't parse the specified URI.");
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      let body: Buffer = Buffer.concat(chunks);
+      let trailers: Record<string, string> = {};
+
+      const isFormUpload =
+        req.method === "POST" &&
+        !key &&
+        (header(req, "content-type") ?? "").startsWith("multipart/form-data");
+      if (!isFormUpload) {
+        ({ payload: body, trailers } = authenticate(req, rawPath, rawQuery, body));
+      }
+      if (!bucketName) {
+        throw new S3Error(501, "NotImplemented", "Listing buckets is not implemented");
+      }
+
+      response = await route({
+        req,
+        bucketName,
+        bucket: bucketFor(bucketName),
+        key,
+        query: new URLSearchParams(rawQuery),
+        body,
+        trailers,
+      });
+    } catch (error) {
+      const s3Error = toS3Error(error);
+      response = {
+        status: s3Error.status,
+        headers: { "content-type": "application/xml" },
+        body: `<?xml version="1.0" encoding="UTF-8"?>\n<Error>${element("Code", s3Error.code)}${element(
+          "Message",
+          s3Error.message,
+        )}${element("Key", key)}${element("RequestId", requestId)}</Error>`,
+      };
+    }
+
+    const body = req.method === "HEAD" || response.status === 304 ? undefined : response.body;
+    res.writeHead(response.status, {
+      "x-amz-request-id": requestId,
+      ...(typeof response.body === "string" && !response.headers?.["content-type"]
+        ? { "content-type": "application/xml" }
+        : {}),
+      ...response.headers,
+      ...(body !== undefined && { "content-length": String(Buffer.byteLength(body)) }),
+    });
+    res.end(body);
+  }
+
+  const server = createServer((req, res) => {
+    void handle(req, res);
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options?.port ?? 0, "127.0.0.1", resolve);
+  });
+
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    url,
+    options: { endpoint: url, accessKeyId, secretAccessKey, region },
+    reset() {
+      buckets.clear();
+      checksums.clear();
+      uploads.clear();
+      customerKeys.clear();
+      uploadKeys.clear();
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // Clients keep connections alive, which would hold the server open
+        server.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { R2Bucket } from "@cloudflare/workers-types";
+
 /**
  * Fast incremental writer for files and pipes.
  *
@@ -102,10 +104,102 @@ export interface NetworkSink extends FileSink {
   stat(): Promise<import("node:fs").Stats>;
 }
 
+/**
+ * Describes the failed attempt passed to retry hooks
+ */
+export interface R2RetryContext {
+  /** The number of the attempt that failed, starting at 1. */
+  attempt: number;
+  /** The name of the failed operation, such as `GetObjectCommand`. */
+  operation: string;
+  /** Whether the operation can safely be sent more than once. */
+  idempotent: boolean;
+}
+
+/**
+ * Retry policy shared by every operation
+ */
+export interface R2RetryOptions {
+  /**
+   * Number of retry attempts after the first failure.
+   * - Default: 3
+   * - Maximum: 255
+   */
+  retries?: number;
+
+  /**
+   * Base delay in milliseconds, doubled after every attempt.
+   * The actual delay is picked at random below it ("full jitter").
+   * - Default: 100
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound of the delay between attempts, in milliseconds.
+   * - Default: 20000
+   */
+  maxDelay?: number;
+
+  /**
+   * Also retry transient failures of operations that are not idempotent, such
+   * as creating or completing a multipart upload. By default, they are only
+   * retried when the request was throttled or never reached the server.
+   * - Default: false
+   */
+  retryNonIdempotent?: boolean;
+
+  /**
+   * Decides whether a failed attempt is retried, overriding the built-in
+   * classification of transient errors (5xx, `SlowDown`, throttling, socket
+   * resets). Return `undefined` to fall back to it.
+   *
+   * @example
+   *     // Also retry 404s, for read-after-write on eventually consistent stores
+   *     shouldRetry: (error) => (error as Error).name === "NoSuchKey" || undefined
+   */
+  shouldRetry?: (
+    error: unknown,
+    context: R2RetryContext,
+  ) => boolean | undefined | Promise<boolean | undefined>;
+
+  /**
+   * Called before waiting for the next attempt, e.g. for logging or metrics.
+   */
+  onRetry?: (error: unknown, context: R2RetryContext & { delay: number }) => void | Promise<void>;
+}
+
 /**
  * Configuration options for R2 operations
  */
-export interface R2Options extends BlobPropertyBag {
+/**
+ * Preconditions making an operation conditional on the current state of the object.
+ *
+ * Reads that fail `ifNoneMatch` or `ifModifiedSince` reject with a
+ * `BlobNotModifiedError`, any other failed precondition rejects with a
+ * `BlobPreconditionFailedError`.
+ *
+ * @example
+ *     // Optimistic concurrency on a shared JSON document
+ *     const { etag } = await file.stat();
+ *     const config = await file.json({ ifMatch: etag });
+ *     await file.write(JSON.stringify({ ...config, enabled: true }), { ifMatch: etag });
+ *
+ * @example
+ *     // Create only if the file does not exist yet
+ *     await file.write(data, { ifNoneMatch: "*" });
+ */
+export interface R2Conditions {
+  /** Only perform the operation if the ETag of the object matches. */
+  ifMatch?: string;
+  /** Only perform the operation if the ETag of the object does not match, `"*"` requires that the object does not exist. */
+  ifNoneMatch?: string;
+  /** Only perform the operation if the object was modified after this date. */
+  ifModifiedSince?: Date;
+  /** Only perform the operation if the object was not modified after this date. */
+  ifUnmodifiedSince?: Date;
+}
+
+export interface R2Options extends BlobPropertyBag, R2Conditions {
   /**
    * The Access Control List (ACL) policy for the file.
    * Controls who can access the file and what permissions they have.
@@ -135,7 +229,8 @@ export interface R2Options extends BlobPropertyBag {
     | "log-delivery-write";
 
   /**
-   * The R2 bucket name. Defaults to `R2_BUCKET` or `AWS_BUCKET` environment variables.
+   * The R2 bucket name. Defaults to the `R2_BUCKET`, `S3_BUCKET` or `AWS_BUCKET`
+   * environment variables, read from the request `env` on Cloudflare Workers.
    *
    * @example
    *     // Using explicit bucket
@@ -149,7 +244,7 @@ export interface R2Options extends BlobPropertyBag {
   bucket?: string;
 
   /**
-   * The AWS region. Defaults to `R2_REGION` or `AWS_REGION` environment variables.
+   * The AWS region. Defaults to `R2_REGION`, `S3_REGION` or `AWS_REGION` environment variables.
    *
    * @example
    *     const file = s3.file("my-file.txt", {
@@ -161,19 +256,22 @@ export interface R2Options extends BlobPropertyBag {
 
   /**
    * The access key ID for authentication.
-   * Defaults to `R2_ACCESS_KEY_ID` or `AWS_ACCESS_KEY_ID` environment variables.
+   * Defaults to `R2_ACCESS_KEY_ID`, `S3_ACCESS_KEY_ID` or `AWS_ACCESS_KEY_ID` environment variables.
+   * Without static keys, S3 clients fall back to the default credential chain of the
+   * AWS SDK: shared profiles, web identity tokens, and container or instance metadata.
    */
   accessKeyId?: string;
 
   /**
    * The secret access key for authentication.
-   * Defaults to `R2_SECRET_ACCESS_KEY` or `AWS_SECRET_ACCESS_KEY` environment variables.
+   * Defaults to `R2_SECRET_ACCESS_KEY`, `S3_SECRET_ACCESS_KEY` or `AWS_SECRET_ACCESS_KEY`
+   * environment variables.
    */
   secretAccessKey?: string;
 
   /**
    * Optional session token for temporary credentials.
-   * Defaults to `R2_SESSION_TOKEN` or `AWS_SESSION_TOKEN` environment variables.
+   * Defaults to `R2_SESSION_TOKEN`, `S3_SESSION_TOKEN` or `AWS_SESSION_TOKEN` environment variables.
    *
    * @example
    *     // Using temporary credentials
@@ -187,7 +285,8 @@ export interface R2Options extends BlobPropertyBag {
 
   /**
    * The R2-compatible service endpoint URL.
-   * Defaults to `R2_ENDPOINT` or `AWS_ENDPOINT` environment variables.
+   * Defaults to `R2_ENDPOINT`, `S3_ENDPOINT` or `AWS_ENDPOINT` environment variables.
+   * Required unless `region` is set.
    *
    * @example
    *     // AWS R2
@@ -212,6 +311,13 @@ export interface R2Options extends BlobPropertyBag {
    *     const file = s3.file("my-file.txt", {
    *       endpoint: "http://localhost:9000"
    *     });
+   *
+   * @example
+   *     // Local directory, without credentials: stored at /var/blobs/my-bucket/my-file.txt
+   *     const file = s3.file("my-file.txt", {
+   *       endpoint: "file:///var/blobs",
+   *       bucket: "my-bucket"
+   *     });
    */
   endpoint?: string;
 
@@ -256,17 +362,43 @@ export interface R2Options extends BlobPropertyBag {
   queueSize?: number;
 
   /**
-   * Number of retry attempts for failed uploads.
+   * Maximum number of concurrent connections per endpoint, shared by every
+   * file of a `Client`. Only applies to Node.js compatible runtimes.
+   * - Default: 50
+   */
+  maxSockets?: number;
+
+  /**
+   * Keep idle connections open to reuse them for later requests, until
+   * `Client.close()` is called. Only applies to Node.js compatible runtimes.
+   * - Default: true
+   */
+  keepAlive?: boolean;
+
+  /**
+   * Number of retry attempts for failed requests, or a full retry policy.
+   * Applies to every operation, with exponential backoff and jitter between attempts.
    * - Default: 3
    * - Maximum: 255
    *
    * @example
    *    // Setting retry attempts
    *     const file = s3.file("my-file.txt", {
-   *       retry: 5 // Retry failed uploads up to 5 times
+   *       retry: 5 // Retry failed requests up to 5 times
+   *     });
+   *
+   * @example
+   *    // Custom policy
+   *     const bucket = new Client({
+   *       retry: {
+   *         retries: 8,
+   *         maxDelay: 60_000,
+   *         onRetry: (error, { attempt, delay, operation }) =>
+   *           console.warn(`${operation} failed, retry #${attempt} in ${delay}ms`, error)
+   *       }
    *     });
    */
-  retry?: number;
+  retry?: number | R2RetryOptions;
 
   /**
    * The Content-Type of the file.
@@ -280,6 +412,49 @@ export interface R2Options extends BlobPropertyBag {
    */
   type?: string;
 
+  /**
+   * Custom metadata stored with the file, sent as `x-amz-meta-*` headers.
+   * Keys are case-insensitive and returned lowercased by {@link R2File.stat}.
+   *
+   * @example
+   *     await file.write(data, {
+   *       metadata: { source: "import-job", commit: "4f2a9c1" }
+   *     });
+   */
+  metadata?: Record<string, string>;
+
+  /**
+   * The Cache-Control header served with the file.
+   *
+   * @example
+   *     await file.write(data, { cacheControl: "public, max-age=31536000, immutable" });
+   */
+  cacheControl?: string;
+
+  /**
+   * The Content-Disposition header served with the file.
+   *
+   * @example
+   *     // Download with a friendly file name
+   *     await file.write(data, { contentDisposition: 'attachment; filename="report.pdf"' });
+   */
+  contentDisposition?: string;
+
+  /**
+   * The Content-Encoding header served with the file, e.g. `gzip` for pre-compressed content.
+   */
+  contentEncoding?: string;
+
+  /**
+   * The Content-Language header served with the file.
+   */
+  contentLanguage?: string;
+
+  /**
+   * The Expires header served with the file.
+   */
+  expires?: Date;
+
   /**
    * By default, Amazon R2 uses the STANDARD Storage Class to store newly created objects.
    *
@@ -302,12 +477,239 @@ export interface R2Options extends BlobPropertyBag {
     | "SNOW"
     | "STANDARD_IA";
 
+  /**
+   * Computes a checksum of the content as it is uploaded, which the server
+   * verifies before storing the object. Multipart uploads send a checksum
+   * per part, combined into a `FULL_OBJECT` checksum for the CRC algorithms
+   * and a `COMPOSITE` one for SHA1 and SHA256.
+   *
+   * Full-object reads are verified against the stored checksum and fail
+   * with a {@link BlobIntegrityError} on mismatch. Ranged reads and
+   * `COMPOSITE` checksums cannot be verified from the content alone.
+   *
+   * R2 bindings only support SHA1 and SHA256, on uploads sent in a single
+   * request.
+   *
+   * @example
+   *     await file.write(data, { checksum: "CRC32C" });
+   *     const { checksums, checksumType } = await file.stat();
+   */
+  checksum?: R2ChecksumAlgorithm;
+
+  /**
+   * Compresses the content as it is uploaded, and stores the compression as
+   * the `contentEncoding` of the object. Reads of the whole object then
+   * decompress it, see {@link R2Options.decompress}.
+   *
+   * `stat()`, `size` and slices see the compressed content.
+   *
+   * @example
+   *     await bucket.write("logs/2026-01-01.jsonl", lines.join("\n"), { compress: "gzip" });
+   *     const text = await bucket.file("logs/2026-01-01.jsonl").text();
+   */
+  compress?: R2Compression;
+
+  /**
+   * Whether reads decompress content stored with a `gzip`, `br` or
+   * `deflate` Content-Encoding. Disable it to get the bytes as they are
+   * stored, e.g. to serve them along with their Content-Encoding.
+   *
+   * Compressed content can only be decoded from its start, so reading a
+   * slice of it throws a `BlobInvalidRangeError`. With `decompress: false`,
+   * slices are ranges of the encoded bytes.
+   * - Default: true
+   *
+   * @example
+   *     const file = bucket.file("app.js", { decompress: false });
+   *     return new Response(file.stream(), {
+   *       headers: { "content-encoding": (await file.stat()).contentEncoding ?? "identity" },
+   *     });
+   */
+  decompress?: boolean;
+
+  /**
+   * Encrypts objects on the client before they are uploaded, with AES-256-GCM
+   * and a random data key per object. The data key is wrapped with `key`
+   * and stored, along with the IV, in the metadata of the object.
+   *
+   * Reads of encrypted objects are decrypted and authenticated transparently,
+   * including slices, which only fetch the chunks they overlap. Objects
+   * written without encryption are read as they are.
+   *
+   * Presigned URLs and server-side copies see the encrypted content, and
+   * `stat()` reports the size of the decrypted content.
+   *
+   * @example
+   *     const bucket = new Client({
+   *       bucket: "documents",
+   *       encryption: { key: process.env.DOCUMENTS_KEY!, keyId: "2026-01" },
+   *     });
+   *
+   *     await bucket.write("contract.pdf", pdf);
+   *     const header = await bucket.file("contract.pdf").slice(0, 1024).bytes();
+   */
+  encryption?: R2EncryptionOptions;
+
+  /**
+   * A 256-bit key the server encrypts the object with (SSE-C): 32 bytes,
+   * raw or base64 encoded. The server does not store the key, so every
+   * request on the object, including reads, `stat()` and copies from it,
+   * must be made with the same key.
+   *
+   * Presigned URLs sign the SSE-C headers, which their requests must send:
+   * `x-amz-server-side-encryption-customer-algorithm`, `-key` (base64) and
+   * `-key-md5` (the base64 MD5 digest of the key).
+   *
+   * @example
+   *     const file = bucket.file("payroll.csv", { sseCustomerKey: process.env.PAYROLL_KEY });
+   *
+   *     await file.write(csv);
+   *     const { size } = await file.stat();
+   */
+  sseCustomerKey?: string | Uint8Array;
+
+  /**
+   * The algorithm the server encrypts the object with the `sseCustomerKey`.
+   * - Default: "AES256"
+   */
+  sseCustomerAlgorithm?: "AES256";
+
   /**
    * @deprecated The size of the internal buffer in bytes. Defaults to 5 MiB. use `partSize` and `queueSize` instead.
    */
   highWaterMark?: number;
 }
 
+/**
+ * Options of client-side envelope encryption, see {@link R2Options.encryption}.
+ */
+export interface R2EncryptionOptions {
+  /**
+   * The key-encryption key wrapping the data key of each object: 32 bytes,
+   * raw or base64 encoded.
+   */
+  key: Uint8Array | string;
+
+  /**
+   * Identifies `key` in the metadata of the objects it encrypts, so that
+   * reading them with another key fails with a clear error.
+   */
+  keyId?: string;
+
+  /**
+   * The size of the chunks encrypted and authenticated separately, which
+   * slices are read in. Each chunk adds 16 bytes to the stored object.
+   * - Default: 64 KiB
+   */
+  chunkSize?: number;
+}
+
+/** A compression applied to uploads, see {@link R2Options.compress}. */
+export type R2Compression = "gzip" | "br" | "deflate";
+
+/** An algorithm S3 checksums objects with, see {@link R2Options.checksum}. */
+export type R2ChecksumAlgorithm = "CRC32" | "CRC32C" | "SHA1" | "SHA256" | "CRC64NVME";
+
+/**
+ * How the checksum of an object is computed: over the whole content, or
+ * over the checksums of its parts, suffixed with the number of parts.
+ */
+export type R2ChecksumType = "COMPOSITE" | "FULL_OBJECT";
+
+/**
+ * Configuration options for the Cloudflare Workers runtime
+ */
+export interface R2BindingOptions extends R2Options {
+  /**
+   * The R2 bucket binding, or the name of the binding in the request context `env`.
+   * - Default: "BUCKET"
+   *
+   * The S3 credentials in {@link R2Options} are only used to generate presigned URLs.
+   *
+   * @example
+   *     // wrangler.jsonc: "r2_buckets": [{ "binding": "UPLOADS", "bucket_name": "uploads" }]
+   *     const bucket = new Client({ binding: "UPLOADS" });
+   *
+   * @example
+   *     // Passing the binding directly
+   *     const bucket = new Client({ binding: env.UPLOADS });
+   */
+  binding?: string | R2Bucket;
+}
+
+/**
+ * Options for the in-memory client used in tests
+ */
+export interface MemoryClientOptions extends R2Options {
+  /**
+   * Timestamps the objects written, e.g. to control `lastModified` in tests.
+   * - Default: a clock starting at 2000-01-01T00:00:00Z and advancing one second per write
+   *
+   * @example
+   *     const bucket = new MemoryClient({ now: () => new Date("2024-06-01") });
+   */
+  now?: () => Date;
+}
+
+/**
+ * Options of the S3-compatible server started by `createTestServer()`
+ */
+export interface R2TestServerOptions {
+  /**
+   * The port to listen on, on the loopback interface.
+   * - Default: a free port picked by the operating system
+   */
+  port?: number;
+
+  /**
+   * The credentials requests must be signed with.
+   * - Default: "test"
+   */
+  accessKeyId?: string;
+
+  /**
+   * - Default: "test"
+   */
+  secretAccessKey?: string;
+
+  /**
+   * The region reported to clients.
+   * - Default: "auto"
+   */
+  region?: string;
+
+  /**
+   * Timestamps the objects written, as {@link MemoryClientOptions.now}.
+   */
+  now?: () => Date;
+}
+
+/**
+ * An S3-compatible server running in the current process, holding its
+ * buckets in memory.
+ */
+export interface R2TestServer {
+  /** The base URL of the server, e.g. `http://127.0.0.1:41234` */
+  readonly url: string;
+
+  /**
+   * The options connecting a client to the server, to be spread into the
+   * options of `Client` along with a bucket. Buckets exist on first use.
+   *
+   * @example
+   *     const bucket = new Client({ ...server.options, bucket: "test" });
+   */
+  readonly options: Required<
+    Pick<R2Options, "endpoint" | "accessKeyId" | "secretAccessKey" | "region">
+  >;
+
+  /** Removes every bucket and object, e.g. between tests. */
+  reset(): void;
+
+  /** Stops the server, closing open connections. */
+  close(): Promise<void>;
+}
+
 /**
  * Options for generating presigned URLs
  */
@@ -348,8 +750,213 @@ export interface R2FilePresignOptions extends R2Options {
    *       expiresIn: 3600,
    *       type: "application/json"
    *     });
+   *
+   * `"POST"` needs form fields besides the URL, use `presignPost()` instead.
    */
   method?: "GET" | "POST" | "PUT" | "DELETE" | "HEAD";
+
+  /**
+   * Overrides the Content-Disposition header of GET responses.
+   *
+   * @example
+   *     // Force a download under another name
+   *     const url = await file.presign({
+   *       responseContentDisposition: 'attachment; filename="invoice-2024.pdf"'
+   *     });
+   */
+  responseContentDisposition?: string;
+
+  /** Overrides the Content-Type header of GET responses. */
+  responseContentType?: string;
+
+  /** Overrides the Cache-Control header of GET responses. */
+  responseCacheControl?: string;
+
+  /** Overrides the Content-Encoding header of GET responses. */
+  responseContentEncoding?: string;
+
+  /**
+   * Restricts a GET URL to a byte range. The range is signed as a header,
+   * so requests must send the same `Range` header. Defaults to the range of
+   * a sliced file.
+   *
+   * @example
+   *     // The first KiB only
+   *     const url = await file.presign({ range: { offset: 0, length: 1024 } });
+   *     await fetch(url, { headers: { Range: "bytes=0-1023" } });
+   */
+  range?: R2ByteRange;
+
+  /**
+   * Signs a specific version of the object, for GET, HEAD and DELETE URLs.
+   */
+  versionId?: string;
+}
+
+/**
+ * An absolute byte range: `length` bytes from `offset`, or the last `suffix` bytes.
+ */
+export type R2ByteRange = { offset: number; length?: number } | { suffix: number };
+
+/**
+ * A condition of a POST policy, see
+ * https://docs.aws.amazon.com/AmazonS3/latest/API/sigv4-HTTPPOSTConstructPolicy.html
+ *
+ * @example
+ *     { "x-amz-meta-tenant": "acme" } // exact match
+ *     ["starts-with", "$key", "uploads/"]
+ *     ["content-length-range", 0, 10 * 1024 * 1024]
+ */
+export type R2PostPolicyCondition =
+  | Record<string, string>
+  | ["eq" | "starts-with", `$${string}`, string]
+  | ["content-length-range", number, number];
+
+/**
+ * Options for presigned POST policies
+ */
+export interface R2PresignPostOptions extends R2Options {
+  /**
+   * Number of seconds until the policy expires.
+   * - Default: 3600 (1 hour)
+   */
+  expiresIn?: number;
+
+  /**
+   * The largest file accepted, in bytes.
+   */
+  maxSize?: number;
+
+  /**
+   * The smallest file accepted, in bytes. Only applies together with `maxSize`.
+   * - Default: 0
+   */
+  minSize?: number;
+
+  /**
+   * Only accept a `Content-Type` form field starting with this prefix.
+   *
+   * @example
+   *     // Images only
+   *     await bucket.presignPost("avatars/${filename}", { contentTypePrefix: "image/" });
+   */
+  contentTypePrefix?: string;
+
+  /**
+   * Additional form fields, which the policy requires to be posted unchanged.
+   */
+  fields?: Record<string, string>;
+
+  /**
+   * Additional policy conditions.
+   */
+  conditions?: R2PostPolicyCondition[];
+}
+
+/**
+ * A presigned POST policy: the form posts its `fields`, followed by the
+ * `file` field, to `url`.
+ */
+export interface R2PresignedPost {
+  url: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Options for server-side copies
+ */
+export interface R2CopyOptions extends R2Options {
+  /**
+   * Whether the destination keeps the metadata of the source object (`"COPY"`)
+   * or takes it from these options, such as `type`, `metadata` and `cacheControl` (`"REPLACE"`).
+   * - Default: "COPY"
+   *
+   * @example
+   *     // Copy and change the content type
+   *     await file.copyTo("report.txt", {
+   *       metadataDirective: "REPLACE",
+   *       type: "text/plain"
+   *     });
+   */
+  metadataDirective?: "COPY" | "REPLACE";
+
+  /**
+   * Only copy when the ETag of the source object matches this value.
+   * Defaults to the ETag of the source when the copy starts, so that a
+   * concurrent overwrite cannot produce a mixed copy.
+   */
+  sourceIfMatch?: string;
+
+  /**
+   * The SSE-C key the source object is encrypted with, see {@link R2Options.sseCustomerKey}.
+   * Defaults to the key of the source file, while `sseCustomerKey` encrypts the copy.
+   *
+   * @example
+   *     // Rotate the key of an object
+   *     await bucket.file("payroll.csv", { sseCustomerKey: oldKey }).copyTo("payroll.csv", {
+   *       sseCustomerKey: newKey,
+   *     });
+   */
+  sourceSseCustomerKey?: string | Uint8Array;
+
+  /**
+   * The algorithm the source object is encrypted with its SSE-C key.
+   * - Default: "AES256"
+   */
+  sourceSseCustomerAlgorithm?: "AES256";
+}
+
+/**
+ * Options for deleting many objects at once
+ */
+export interface R2DeleteManyOptions {
+  /**
+   * Number of delete requests, of up to 1000 keys each, to run in parallel.
+   * - Default: 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Options for deleting every object under a prefix
+ */
+export interface R2DeletePrefixOptions extends R2DeleteManyOptions {
+  /**
+   * List the objects that would be deleted without deleting them.
+   * They are reported in `deleted`.
+   */
+  dryRun?: boolean;
+}
+
+export interface R2DeleteError {
+  /** The key that could not be deleted. */
+  key: string;
+  /** The error code, such as `AccessDenied`. */
+  code?: string;
+  /** A description of the error. */
+  message?: string;
+}
+
+export interface R2DeleteManyResult {
+  /** The keys that were deleted. */
+  deleted: string[];
+  /** The keys that could not be deleted, with the reason. */
+  errors: R2DeleteError[];
+}
+
+/**
+ * Checksums stored with an object, base64 encoded.
+ * Which ones are present depends on the backend and on how the object was uploaded.
+ */
+export interface R2ObjectChecksums {
+  crc32?: string;
+  crc32c?: string;
+  crc64nvme?: string;
+  md5?: string;
+  sha1?: string;
+  sha256?: string;
+  sha384?: string;
+  sha512?: string;
 }
 
 export interface R2Stats {
@@ -357,8 +964,40 @@ export interface R2Stats {
   lastModified: Date;
   etag: string;
   type: string;
+  /** Custom metadata stored with the object, see {@link R2Options.metadata} */
+  metadata: Record<string, string>;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  contentLanguage?: string;
+  expires?: Date;
+  storageClass?: string;
+  /** The version of the object, on versioned buckets and R2 bindings */
+  versionId?: string;
+  checksums: R2ObjectChecksums;
+  /** How the S3 checksum of the object was computed, when it has one */
+  checksumType?: R2ChecksumType;
 }
 
+/**
+ * Data accepted by {@link R2File.write}.
+ *
+ * Streams, async iterables, `Request`/`Response` bodies, blobs and other R2
+ * files are uploaded as they are read, without buffering them entirely.
+ */
+export type R2WriteData =
+  | string
+  | ArrayBufferView
+  | ArrayBuffer
+  | SharedArrayBuffer
+  | Request
+  | Response
+  | R2File
+  | Blob
+  | ReadableStream<Uint8Array>
+  | import("node:stream").Readable
+  | AsyncIterable<Uint8Array>;
+
 /**
  * Represents a file in an R2-compatible storage service.
  * Extends the Blob interface for compatibility with web APIs.
@@ -487,7 +1126,24 @@ export interface R2File extends Blob {
    *     }
    */
   readonly readable: ReadableStream<Uint8Array<ArrayBuffer>>;
-  stream(): ReadableStream<Uint8Array<ArrayBuffer>>;
+  stream(options?: R2Conditions): ReadableStream<Uint8Array<ArrayBuffer>>;
+
+  /**
+   * Reads the file's content. Like their Blob counterparts, but they accept
+   * preconditions, see {@link R2Conditions}.
+   *
+   * @example
+   *     // Only download the file again when it changed
+   *     try {
+   *       cached = await file.json({ ifNoneMatch: cachedEtag });
+   *     } catch (err) {
+   *       if (!(err instanceof BlobNotModifiedError)) throw err;
+   *     }
+   */
+  text(options?: R2Conditions): Promise<string>;
+  json<T = unknown>(options?: R2Conditions): Promise<T>;
+  bytes(options?: R2Conditions): Promise<Uint8Array<ArrayBuffer>>;
+  arrayBuffer(options?: R2Conditions): Promise<ArrayBuffer>;
 
   /**
    * The name or path of the file in the bucket.
@@ -564,19 +1220,20 @@ export interface R2File extends Blob {
    *       acl: "public-read",
    *       type: "application/octet-stream"
    *     });
+   *
+   * @example
+   *     // Create only, failing with a BlobPreconditionFailedError if the file exists
+   *     await file.write(data, { ifNoneMatch: "*" });
+   *
+   * @example
+   *     // Streaming a child process output, switching to multipart above `partSize`
+   *     const child = spawn("pg_dump", ["mydb"]);
+   *     await file.write(child.stdout, {
+   *       type: "application/sql",
+   *       partSize: 16 * 1024 * 1024
+   *     });
    */
-  write(
-    data:
-      | string
-      | ArrayBufferView
-      | ArrayBuffer
-      | SharedArrayBuffer
-      | Request
-      | Response
-      | R2File
-      | Blob,
-    options?: R2Options,
-  ): Promise<number>;
+  write(data: R2WriteData, options?: R2Options): Promise<number>;
 
   /**
    * Generates a presigned URL for the file.
@@ -601,6 +1258,13 @@ export interface R2File extends Blob {
    *     });
    *
    * @example
+   *     // Upload URL with metadata, which the uploader must send as `x-amz-meta-*` headers
+   *     const uploadUrl = await file.presign({
+   *       method: "PUT",
+   *       metadata: { uploadedBy: userId }
+   *     });
+   *
+   * @example
    *     // URL with custom permissions
    *     const url = await file.presign({
    *       method: "GET",
@@ -610,6 +1274,26 @@ export interface R2File extends Blob {
    */
   presign(options?: R2FilePresignOptions): Promise<string>;
 
+  /**
+   * Copies the file to another key, server-side, without downloading it.
+   * Objects larger than 5 GiB are copied with a multipart copy.
+   *
+   * @param destination - The destination path in the same bucket, an `s3://bucket/key` URL or an R2File
+   * @param options - Copy configuration options
+   * @returns Promise resolving to the destination file
+   *
+   * @example
+   *     // Copy within the bucket
+   *     const backup = await file.copyTo("backups/data.json");
+   *
+   * @example
+   *     // Copy to another bucket
+   *     await file.copyTo("s3://archive-bucket/data.json", {
+   *       storageClass: "GLACIER"
+   *     });
+   */
+  copyTo(destination: string | R2File, options?: R2CopyOptions): Promise<R2File>;
+
   /**
    * Deletes the file from R2.
    *
@@ -627,8 +1311,12 @@ export interface R2File extends Blob {
    *     } catch (err) {
    *       console.error("Failed to delete file:", err);
    *     }
+   *
+   * @example
+   *     // Only delete the version that was read
+   *     await file.delete({ ifMatch: etag });
    */
-  delete(): Promise<void>;
+  delete(options?: R2Conditions): Promise<void>;
 
   /**
    * Alias for delete() method.
@@ -642,9 +1330,11 @@ export interface R2File extends Blob {
   /**
    * Get the stat of a file in an R2-compatible storage service.
    *
+   * @param options - Preconditions, see {@link R2Conditions}
    * @returns Promise resolving to R2Stat
+   * @throws {BlobNotFoundError} If the file does not exist
    */
-  stat(): Promise<R2Stats>;
+  stat(options?: R2Conditions): Promise<R2Stats>;
 }
 
 export interface R2ListObjectsOptions {
@@ -664,11 +1354,50 @@ export interface R2ListObjectsOptions {
   fetchOwner?: boolean;
 }
 
+export interface R2ListIterateOptions extends R2ListObjectsOptions {
+  /** The maximum number of entries (objects and common prefixes) to yield across all pages. By default, every matching entry is yielded. */
+  limit?: number;
+  /** Stops the iteration with the signal's reason once aborted. */
+  signal?: AbortSignal;
+}
+
+/** A common prefix yielded when listing with a delimiter. Unlike objects, it has no `key`. */
+export interface R2ListCommonPrefix {
+  prefix: string;
+}
+
+/** An entry yielded by {@link R2ListFunction.iterate}: either an object or a common prefix. */
+export type R2ListEntry = R2ListObjectContent | R2ListCommonPrefix;
+
+/**
+ * Lists a single page of objects, with {@link R2ListFunction.iterate} to
+ * transparently follow continuation tokens across pages.
+ */
+export interface R2ListFunction<Options> {
+  (input?: R2ListObjectsOptions | null, options?: Options): Promise<R2ListObjectsResponse>;
+
+  /**
+   * Iterates over every object and common prefix, fetching pages as needed.
+   *
+   * @example
+   *     for await (const entry of bucket.list.iterate({ prefix: "uploads/" })) {
+   *       if ("key" in entry) console.log(entry.key, entry.size);
+   *     }
+   *
+   * @example
+   *     // Stop after 10,000 entries or when the request is cancelled
+   *     for await (const entry of bucket.list.iterate({ limit: 10_000, signal: request.signal })) {
+   *       // ...
+   *     }
+   */
+  iterate(input?: R2ListIterateOptions | null, options?: Options): AsyncGenerator<R2ListEntry>;
+}
+
 export interface R2ListObjectContent {
   /** The algorithm that was used to create a checksum of the object. */
-  checksumAlgorithm?: "CRC32" | "CRC32C" | "SHA1" | "SHA256" | "CRC64NVME";
+  checksumAlgorithm?: R2ChecksumAlgorithm;
   /** The checksum type that is used to calculate the object's checksum value. */
-  checksumType?: "COMPOSITE" | "FULL_OBJECT";
+  checksumType?: R2ChecksumType;
   /**
    * The entity tag is a hash of the object. The ETag reflects changes only to the contents of an object, not its metadata. The ETag may or may not be an MD5 digest of the object data. Whether or not it is depends on how the object was created and how it is encrypted as described below:
    *
@@ -748,3 +1477,205 @@ export interface R2ListObjectsResponse {
   /** If StartAfter was sent with the request, it is included in the response. */
   startAfter?: string;
 }
+
+/**
+ * Options for removing a directory with {@link R2Directory.rm}
+ */
+export interface R2DirectoryRmOptions extends R2DeleteManyOptions {
+  /**
+   * Delete every file under the directory. Otherwise only the marker of an
+   * empty directory is deleted, and non-empty directories are left as they are.
+   */
+  recursive?: boolean;
+}
+
+/**
+ * A directory and everything under it, as built by {@link R2Directory.tree}.
+ */
+export interface R2DirectoryTree {
+  /** The prefix of the directory, e.g. `photos/2026/`, or `""` for the root of the bucket */
+  prefix: string;
+  /** Total size in bytes of the files in the directory and its subdirectories */
+  size: number;
+  /** Number of files in the directory and its subdirectories */
+  fileCount: number;
+  /** The files directly in the directory */
+  files: R2ListObjectContent[];
+  /** The subdirectories, including empty ones created with {@link R2Directory.mkdir} */
+  folders: R2DirectoryTree[];
+}
+
+/**
+ * A directory-style view of the keys under a prefix ending with `/`. The
+ * directories of object storage only exist through the keys under them, or
+ * a zero-byte marker object named after the prefix.
+ *
+ * @example
+ *     const photos = bucket.dir("photos/");
+ *
+ *     for (const entry of await photos.readdir()) {
+ *       console.log("key" in entry ? `${entry.key} ${entry.size}` : `${entry.prefix} (folder)`);
+ *     }
+ *
+ *     const { size, fileCount } = await photos.tree();
+ *     await photos.rm({ recursive: true });
+ */
+export interface R2Directory {
+  /** The prefix of the directory, ending with `/`, or `""` for the root of the bucket */
+  readonly prefix: string;
+
+  /**
+   * Creates the file at `path`, relative to the directory.
+   *
+   * @example
+   *     await bucket.dir("photos/").file("cat.jpg").write(image);
+   */
+  file(path: string, options?: R2Options): R2File;
+
+  /**
+   * Creates the subdirectory at `path`, relative to the directory.
+   */
+  dir(path: string): R2Directory;
+
+  /**
+   * Lists the files and subdirectories directly in the directory, across
+   * every page of the listing. Subdirectories are common prefixes, and the
+   * marker of the directory is left out.
+   *
+   * @example
+   *     const entries = await bucket.dir("photos/").readdir();
+   *     const folders = entries.filter((entry) => !("key" in entry));
+   */
+  readdir(options?: Pick<R2ListIterateOptions, "signal">): Promise<R2ListEntry[]>;
+
+  /**
+   * Iterates over every file under the directory, subdirectories included,
+   * in lexicographical order. Directory markers are skipped.
+   *
+   * @example
+   *     for await (const file of bucket.dir("logs/").walk()) {
+   *       if (file.key.endsWith(".tmp")) await bucket.delete(file.key);
+   *     }
+   */
+  walk(
+    options?: Pick<R2ListIterateOptions, "limit" | "signal">,
+  ): AsyncGenerator<R2ListObjectContent>;
+
+  /**
+   * Lists everything under the directory as a tree, with the size and
+   * number of files of each directory.
+   *
+   * @example
+   *     const tree = await bucket.dir("tenants/").tree();
+   *     for (const tenant of tree.folders) {
+   *       console.log(tenant.prefix, tenant.size, tenant.fileCount);
+   *     }
+   */
+  tree(options?: Pick<R2ListIterateOptions, "signal">): Promise<R2DirectoryTree>;
+
+  /**
+   * Creates a zero-byte marker object named after the directory, or the
+   * subdirectory at `path`, so that it is listed while it is empty.
+   *
+   * Keys of `file://` endpoints are paths of local files, which cannot end
+   * with `/`, so no marker is written there: the directory is only listed
+   * once it holds files.
+   *
+   * @returns The created directory
+   *
+   * @example
+   *     const drafts = await bucket.dir("documents/").mkdir("drafts");
+   */
+  mkdir(path?: string): Promise<R2Directory>;
+
+  /**
+   * Removes the directory. Without `recursive`, the directory must be empty
+   * and only its marker is deleted.
+   *
+   * @returns The deleted keys and the keys that could not be deleted
+   * @throws {Error} If the directory is not empty and `recursive` is not set
+   *
+   * @example
+   *     await bucket.dir("tmp/uploads/").rm({ recursive: true });
+   */
+  rm(options?: R2DirectoryRmOptions): Promise<R2DeleteManyResult>;
+}
+
+/**
+ * Options for synchronizing a local directory with a prefix of the bucket
+ */
+export interface R2SyncOptions {
+  /**
+   * `upload` makes the bucket match the local directory, `download` makes
+   * the local directory match the bucket.
+   * - Default: "upload"
+   */
+  direction?: "upload" | "download";
+  /**
+   * Delete the files of the destination that are missing from the source.
+   * Excluded files are never deleted.
+   */
+  delete?: boolean;
+  /**
+   * Plan the changes without transferring or deleting anything.
+   */
+  dryRun?: boolean;
+  /**
+   * Paths to leave out, relative to the directory and separated by `/`.
+   * Strings are glob patterns where `*` matches within a path segment and
+   * `**` across segments. Patterns without a `/` match the name of a file
+   * or directory at any depth, e.g. `node_modules` or `*.tmp`.
+   */
+  exclude?: (string | RegExp)[];
+  /**
+   * Number of files to transfer in parallel.
+   * - Default: 5
+   */
+  concurrency?: number;
+  /** Stops the sync with the signal's reason once aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A change planned by {@link R2SyncOptions | sync}, to transfer or delete a file.
+ */
+export interface R2SyncChange {
+  /** What the change does to the destination. */
+  action: "upload" | "download" | "delete";
+  /**
+   * Why the change is needed: the file is missing from the destination,
+   * differs from the source, or is missing from the source.
+   */
+  reason: "new" | "changed" | "extra";
+  /** The key of the object in the bucket. */
+  key: string;
+  /** The path of the local file. */
+  path: string;
+  /** The size of the file transferred or deleted, in bytes. */
+  size: number;
+}
+
+export interface R2SyncError extends R2SyncChange {
+  /** The error code, such as `AccessDenied`. */
+  code?: string;
+  /** A description of the error. */
+  message?: string;
+}
+
+export interface R2SyncResult {
+  /** The direction of the sync. */
+  direction: "upload" | "download";
+  /** Whether the changes were only planned. */
+  dryRun: boolean;
+  /** The changes of the plan, in key order. Those that failed are also reported in `errors`. */
+  changes: R2SyncChange[];
+  /** The keys of the files that are the same on both sides. */
+  unchanged: string[];
+  /**
+   * The keys left out because they cannot be stored in the local directory,
+   * such as keys with `..` or empty segments, which would write outside of it.
+   */
+  skipped: string[];
+  /** The changes that failed, with the reason. */
+  errors: R2SyncError[];
+}
@@ -0,0 +1,503 @@
+import type { Stats } from "node:fs";
+import type { NetworkSink, R2Options, R2Stats } from "./types.ts";
+import type { UploadBody } from "./body.ts";
+import { pickConditions, withConditionHeaders } from "./conditions.ts";
+import { s3ObjectHeaders, statFromHead } from "./metadata.ts";
+import { s3CustomerKey } from "./sse.ts";
+import { checksumField, multipartChecksumType } from "./checksum.ts";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  UploadPartCommand,
+  type ObjectCannedACL,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PART_SIZE = 5120 * 1024 * 1024;
+const DEFAULT_QUEUE_SIZE = 5;
+const MAX_QUEUE_SIZE = 255;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export type UploadedPart = {
+  partNumber: number;
+  etag: string;
+  /** The checksum of the part, when uploaded with {@link R2Options.checksum} */
+  checksum?: string;
+};
+
+/**
+ * The storage operations a {@link R2FileWriter} needs to upload an object,
+ * implemented once per backend (S3 API, Workers binding).
+ */
+export interface MultipartTarget {
+  /** Uploads the whole object in a single request. */
+  put(body: Uint8Array): Promise<void>;
+  /** Starts a multipart upload and resolves to its upload id. */
+  create(): Promise<string>;
+  uploadPart(uploadId: string, partNumber: number, body: Uint8Array): Promise<UploadedPart>;
+  complete(uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abort(uploadId: string): Promise<void>;
+  stat(): Promise<R2Stats>;
+}
+
+/**
+ * Creates a {@link MultipartTarget} backed by the S3 multipart upload API.
+ */
+export function s3MultipartTarget(
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options?: R2Options,
+): MultipartTarget {
+  // Preconditions apply to the request that makes the object visible
+  const conditions = pickConditions(options);
+  // The SDK computes the checksum of each request body for the algorithm given
+  const algorithm = options?.checksum;
+  // Every request on an SSE-C object needs its key, the parts of an upload included
+  const customerKey = s3CustomerKey(options);
+
+  return {
+    async put(body) {
+      await client.send(
+        withConditionHeaders(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Body: body,
+            ...s3ObjectHeaders(options),
+            ACL: options?.acl as ObjectCannedACL | undefined,
+            StorageClass: options?.storageClass,
+            ChecksumAlgorithm: algorithm,
+            ...customerKey,
+          }),
+          conditions,
+        ),
+      );
+    },
+    async create() {
+      const response = await client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          ...s3ObjectHeaders(options),
+          ACL: options?.acl as ObjectCannedACL | undefined,
+          StorageClass: options?.storageClass,
+          ChecksumAlgorithm: algorithm,
+          ChecksumType: algorithm && multipartChecksumType(algorithm),
+          ...customerKey,
+        }),
+      );
+
+      if (!response.UploadId) {
+        throw new Error("CreateMultipartUpload did not return an UploadId");
+      }
+
+      return response.UploadId;
+    },
+    async uploadPart(uploadId, partNumber, body) {
+      const response = await client.send(
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ChecksumAlgorithm: algorithm,
+          ...customerKey,
+        }),
+      );
+
+      return {
+        partNumber,
+        etag: response.ETag ?? "",
+        checksum: algorithm && response[checksumField(algorithm)],
+      };
+    },
+    async complete(uploadId, parts) {
+      await client.send(
+        withConditionHeaders(
+          new CompleteMultipartUploadCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+              Parts: parts.map((p) => ({
+                PartNumber: p.partNumber,
+                ETag: p.etag,
+                ...(algorithm && { [checksumField(algorithm)]: p.checksum }),
+              })),
+            },
+            ...customerKey,
+          }),
+          conditions,
+        ),
+      );
+    },
+    async abort(uploadId) {
+      await client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+        }),
+      );
+    },
+    async stat() {
+      const response = await client.send(
+        new HeadObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ChecksumMode: "ENABLED",
+          ...customerKey,
+        }),
+      );
+
+      return statFromHead(response);
+    },
+  };
+}
+
+/**
+ * Converts a chunk given to `write()` to bytes, copying views so that callers
+ * can safely reuse their buffers.
+ */
+export function chunkBytes(
+  chunk: string | ArrayBufferView | ArrayBuffer | SharedArrayBuffer,
+): Uint8Array {
+  if (typeof chunk === "string") {
+    return new TextEncoder().encode(chunk);
+  }
+  if (chunk instanceof ArrayBuffer || chunk instanceof SharedArrayBuffer) {
+    return new Uint8Array(chunk.slice(0));
+  }
+  return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength).slice();
+}
+
+/**
+ * Incremental multipart uploader returned by {@link R2File.writer}.
+ *
+ * Written chunks are buffered until `partSize` bytes are available, then
+ * uploaded as a part while up to `queueSize` parts are in flight. Uploads that
+ * never fill a single part are sent with one PutObject on {@link end}.
+ */
+export class R2FileWriter implements NetworkSink {
+  readonly #target: MultipartTarget;
+  #partSize: number;
+  readonly #queueSize: number;
+
+  #chunks: Uint8Array[] = [];
+  #bufferedBytes = 0;
+  #bytesUploaded = 0;
+  #bytesFlushed = 0;
+
+  #uploadId?: Promise<string>;
+  #partNumber = 0;
+  #parts: UploadedPart[] = [];
+  #pending: { partNumber: number; body: Uint8Array }[] = [];
+  #inFlight = new Set<Promise<void>>();
+
+  #error?: unknown;
+  #closed = false;
+
+  constructor(target: MultipartTarget, options?: R2Options) {
+    this.#target = target;
+    this.#partSize = clamp(
+      options?.partSize ?? options?.highWaterMark ?? MIN_PART_SIZE,
+      MIN_PART_SIZE,
+      MAX_PART_SIZE,
+    );
+    this.#queueSize = clamp(options?.queueSize ?? DEFAULT_QUEUE_SIZE, 1, MAX_QUEUE_SIZE);
+  }
+
+  start(options?: { highWaterMark?: number }): void {
+    if (options?.highWaterMark !== undefined && this.#partNumber === 0) {
+      this.#partSize = clamp(options.highWaterMark, MIN_PART_SIZE, MAX_PART_SIZE);
+    }
+  }
+
+  write(chunk: string | ArrayBufferView | ArrayBuffer | SharedArrayBuffer): number {
+    if (this.#closed) {
+      throw new Error("Cannot write to a closed writer");
+    }
+    if (this.#error) {
+      throw this.#error;
+    }
+
+    const bytes = chunkBytes(chunk);
+    if (bytes.byteLength === 0) {
+      return 0;
+    }
+
+    this.#chunks.push(bytes);
+    this.#bufferedBytes += bytes.byteLength;
+
+    while (this.#bufferedBytes >= this.#partSize) {
+      this.#enqueue(this.#take(this.#partSize));
+    }
+
+    return bytes.byteLength;
+  }
+
+  /**
+   * Resolves once every buffered part has entered the upload queue.
+   * Awaiting it between writes keeps memory bounded when the source produces
+   * data faster than it can be uploaded.
+   */
+  async ready(): Promise<void> {
+    while (!this.#error && this.#pending.length > 0) {
+      await Promise.race(this.#inFlight);
+    }
+
+    if (this.#error) {
+      throw this.#error;
+    }
+  }
+
+  /**
+   * Waits for every complete part to be uploaded.
+   *
+   * Bytes below `partSize` stay buffered since S3 rejects non-final parts
+   * smaller than 5 MiB; they are sent by {@link end}.
+   *
+   * @returns Number of bytes committed since the previous flush
+   */
+  async flush(): Promise<number> {
+    await this.#drain();
+
+    const flushed = this.#bytesUploaded - this.#bytesFlushed;
+    this.#bytesFlushed = this.#bytesUploaded;
+    return flushed;
+  }
+
+  /**
+   * Uploads the remaining buffer and completes the upload.
+   * When called with an error, the multipart upload is aborted instead and
+   * nothing is committed.
+   *
+   * @returns Total number of bytes written to the object
+   */
+  async end(error?: Error): Promise<number> {
+    if (this.#closed) {
+      if (this.#error) throw this.#error;
+      return this.#bytesUploaded;
+    }
+    this.#closed = true;
+
+    if (this.#error) {
+      await this.#abort();
+      throw this.#error;
+    }
+
+    if (error) {
+      this.#error = error;
+      await this.#abort();
+      return 0;
+    }
+
+    try {
+      if (!this.#uploadId) {
+        const body = this.#take(this.#bufferedBytes);
+        await this.#target.put(body);
+        this.#bytesUploaded += body.byteLength;
+        return this.#bytesUploaded;
+      }
+
+      if (this.#bufferedBytes > 0) {
+        this.#enqueue(this.#take(this.#bufferedBytes));
+      }
+      await this.#drain();
+
+      const uploadId = await this.#uploadId;
+      const parts = [...this.#parts].sort((a, b) => a.partNumber - b.partNumber);
+      await this.#target.complete(uploadId, parts);
+
+      return this.#bytesUploaded;
+    } catch (e) {
+      this.#error ??= e;
+      await this.#abort();
+      throw e;
+    }
+  }
+
+  async stat(): Promise<Stats> {
+    const { size, lastModified } = await this.#target.stat();
+    return new NetworkSinkStats(size, lastModified);
+  }
+
+  ref(): void {
+    // Network sinks do not hold a file descriptor open
+  }
+
+  unref(): void {
+    // Network sinks do not hold a file descriptor open
+  }
+
+  #take(size: number): Uint8Array {
+    const part = new Uint8Array(size);
+    let offset = 0;
+
+    while (offset < size) {
+      const chunk = this.#chunks[0]!;
+      const needed = size - offset;
+
+      if (chunk.byteLength <= needed) {
+        part.set(chunk, offset);
+        offset += chunk.byteLength;
+        this.#chunks.shift();
+      } else {
+        part.set(chunk.subarray(0, needed), offset);
+        this.#chunks[0] = chunk.subarray(needed);
+        offset += needed;
+      }
+    }
+
+    this.#bufferedBytes -= size;
+    return part;
+  }
+
+  #enqueue(body: Uint8Array) {
+    this.#uploadId ??= this.#createUpload();
+    this.#pending.push({ partNumber: ++this.#partNumber, body });
+    this.#pump();
+  }
+
+  #pump() {
+    while (!this.#error && this.#pending.length > 0 && this.#inFlight.size < this.#queueSize) {
+      const { partNumber, body } = this.#pending.shift()!;
+      const task = this.#uploadPart(partNumber, body)
+        .catch((e) => {
+          this.#error ??= e;
+        })
+        .finally(() => {
+          this.#inFlight.delete(task);
+          this.#pump();
+        });
+      this.#inFlight.add(task);
+    }
+  }
+
+  async #drain(): Promise<void> {
+    while (this.#inFlight.size > 0) {
+      await Promise.race(this.#inFlight);
+    }
+
+    if (this.#error) {
+      await this.#abort();
+      throw this.#error;
+    }
+  }
+
+  async #createUpload(): Promise<string> {
+    return this.#target.create();
+  }
+
+  async #uploadPart(partNumber: number, body: Uint8Array): Promise<void> {
+    const uploadId = await this.#uploadId!;
+    const part = await this.#target.uploadPart(uploadId, partNumber, body);
+
+    this.#parts.push(part);
+    this.#bytesUploaded += body.byteLength;
+  }
+
+  async #abort(): Promise<void> {
+    this.#pending = [];
+    this.#chunks = [];
+    this.#bufferedBytes = 0;
+
+    if (!this.#uploadId) return;
+
+    const uploadId = this.#uploadId;
+    this.#uploadId = undefined;
+
+    await Promise.allSettled(this.#inFlight);
+    try {
+      await this.#target.abort(await uploadId);
+    } catch {
+      // The upload was never created or is already gone; nothing to clean up
+    }
+  }
+}
+
+/**
+ * Writes `body` to `writer` with backpressure and finishes the upload.
+ * The upload is aborted if reading the body fails.
+ *
+ * @returns Number of bytes written to the object
+ */
+export async function pipeToWriter(
+  body: UploadBody,
+  writer: Pick<R2FileWriter, "write" | "ready" | "end">,
+): Promise<number> {
+  try {
+    if (body instanceof Uint8Array) {
+      for (let offset = 0; offset < body.byteLength; offset += MIN_PART_SIZE) {
+        writer.write(body.subarray(offset, offset + MIN_PART_SIZE));
+        await writer.ready();
+      }
+    } else {
+      for await (const chunk of body) {
+        writer.write(chunk);
+        await writer.ready();
+      }
+    }
+  } catch (error) {
+    await writer.end(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  return writer.end();
+}
+
+class NetworkSinkStats implements Stats {
+  dev = 0;
+  ino = 0;
+  mode = 0o100644;
+  nlink = 1;
+  uid = 0;
+  gid = 0;
+  rdev = 0;
+  size: number;
+  blksize = 0;
+  blocks = 0;
+  atimeMs: number;
+  mtimeMs: number;
+  ctimeMs: number;
+  birthtimeMs: number;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+  birthtime: Date;
+
+  constructor(size: number, lastModified: Date) {
+    this.size = size;
+    this.atime = this.mtime = this.ctime = this.birthtime = lastModified;
+    this.atimeMs = this.mtimeMs = this.ctimeMs = this.birthtimeMs = lastModified.getTime();
+  }
+
+  isFile() {
+    return true;
+  }
+  isDirectory() {
+    return false;
+  }
+  isBlockDevice() {
+    return false;
+  }
+  isCharacterDevice() {
+    return false;
+  }
+  isSymbolicLink() {
+    return false;
+  }
+  isFIFO() {
+    return false;
+  }
+  isSocket() {
+    return false;
+  }
+}
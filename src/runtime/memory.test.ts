@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryClient } from "./memory.ts";
+
+test("close() keeps the files and reset() removes them", async () => {
+  const bucket = new MemoryClient();
+  await bucket.write("a.txt", "a");
+
+  bucket.close();
+  assert.equal(await bucket.exists("a.txt"), true);
+  bucket.reset();
+  assert.equal(await bucket.exists("a.txt"), false);
+});
+
+test("slices relative to the end are presigned with the size of the file in memory", async () => {
+  const bucket = new MemoryClient();
+  await bucket.write("a.txt", "Hello World");
+
+  const url = new URL(await bucket.file("a.txt").slice(2, -3).presign());
+  assert.equal(url.hostname, "memory.invalid");
+  assert.ok(url.searchParams.get("X-Amz-SignedHeaders")?.split(";").includes("range"));
+  await assert.rejects(bucket.file("a.txt").slice(20, -3).presign(), RangeError);
+});
@@ -0,0 +1,344 @@
+import type {
+  MemoryClientOptions,
+  R2CopyOptions,
+  R2DeleteManyOptions,
+  R2DeleteManyResult,
+  R2DeletePrefixOptions,
+  R2Directory,
+  R2File,
+  R2FilePresignOptions,
+  R2ListEntry,
+  R2ListFunction,
+  R2ListIterateOptions,
+  R2ListObjectsOptions,
+  R2Options,
+  R2PresignedPost,
+  R2PresignPostOptions,
+  R2Stats,
+  R2SyncOptions,
+  R2SyncResult,
+  R2WriteData,
+} from "../lib/types.ts";
+import { R2BindingFile } from "../lib/binding-file.ts";
+import { type DirectorySource, R2PrefixDirectory } from "../lib/directory.ts";
+import { bindingDeleteChunk, deleteListed, deleteMany } from "../lib/delete.ts";
+import { listBinding, paginate } from "../lib/list.ts";
+import { MemoryBucket } from "../lib/memory-bucket.ts";
+import { presignPost } from "../lib/post-policy.ts";
+import { sync } from "../lib/sync.ts";
+
+export {
+  BlobAccessDeniedError,
+  BlobConfigError,
+  BlobError,
+  BlobIntegrityError,
+  BlobInvalidRangeError,
+  BlobNetworkError,
+  BlobNotFoundError,
+  BlobNotModifiedError,
+  BlobPreconditionFailedError,
+} from "../lib/errors.ts";
+export { createTestServer } from "../lib/test-server.ts";
+
+type ListOptions = Pick<R2Options, "bucket">;
+
+/**
+ * Settings used to sign placeholder URLs, which point to a reserved domain
+ * that never resolves, so that presigning works offline.
+ */
+const PLACEHOLDER_OPTIONS: R2Options = {
+  bucket: "memory",
+  accessKeyId: "memory",
+  secretAccessKey: "memory",
+  endpoint: "https://memory.invalid",
+  region: "auto",
+};
+
+/**
+ * A bucket held in memory, with the same instance methods as the `Client` of
+ * the Node.js runtime, to test code using a bucket without an R2 or S3 account.
+ *
+ * Every instance is an empty, isolated bucket. There is no counterpart to the
+ * static methods of `Client`, which would share a single bucket between tests:
+ * code under test should be given an instance. Files behave like the files of
+ * the Workers runtime: ETags are the MD5 of the content, `lastModified` comes
+ * from a deterministic clock and presigned URLs are placeholders signed with
+ * dummy credentials.
+ *
+ * @example
+ *     // Inject the client where the code under test expects a `Client`
+ *     const bucket = new MemoryClient();
+ *     await bucket.write("users/1.json", JSON.stringify({ name: "Ada" }));
+ *
+ *     const { contents } = await bucket.list({ prefix: "users/" });
+ *     console.log(contents?.map((c) => c.key)); // ["users/1.json"]
+ *
+ * @category Cloud Storage
+ */
+export class MemoryClient {
+  readonly #options: R2Options;
+  readonly #bucket: MemoryBucket;
+
+  /**
+   * Create a new, empty bucket in memory.
+   *
+   * @param options The default options of the files, and the clock used to timestamp writes
+   * @returns A new MemoryClient instance
+   */
+  constructor(options?: MemoryClientOptions) {
+    const { now, ...fileOptions } = options ?? {};
+    this.#options = { ...PLACEHOLDER_OPTIONS, ...fileOptions };
+    this.#bucket = new MemoryBucket(now);
+  }
+
+  /**
+   * Creates an R2File instance for the given path.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns An R2File instance
+   */
+  file(path: string, options?: R2Options): R2File {
+    return new R2BindingFile(path, () => this.#bucket.asBinding(), {
+      ...this.#options,
+      ...options,
+    });
+  }
+
+  /**
+   * Writes data directly to a path in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param data The data to write to the file
+   * @param options Additional R2 options to override defaults
+   * @returns The number of bytes written
+   */
+  write(path: string, data: R2WriteData, options?: R2Options): Promise<number> {
+    const file = this.file(path, options);
+    return file.write(data, { ...this.#options, ...options });
+  }
+
+  /**
+   * Generate a placeholder presigned URL for a file, pointing to
+   * `memory.invalid` unless an endpoint is configured. Slices are resolved
+   * against the size of the file in memory.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Options for generating the presigned URL
+   * @returns A presigned URL string
+   */
+  presign(path: string, options?: R2FilePresignOptions): Promise<string> {
+    return this.file(path).presign({ ...this.#options, ...options });
+  }
+
+  /**
+   * Generate a placeholder presigned POST policy, pointing to
+   * `memory.invalid` unless an endpoint is configured.
+   *
+   * @param key The key of the upload, which may end with `${filename}` to accept any file name
+   * @param options Policy options, such as `maxSize` and `contentTypePrefix`
+   * @returns The URL to post the form to and the fields the form must include
+   */
+  presignPost(key: string, options?: R2PresignPostOptions): Promise<R2PresignedPost> {
+    return presignPost(key, { ...this.#options, ...options });
+  }
+
+  /**
+   * Copy a file to another path in the bucket.
+   *
+   * @param source The path of the file to copy
+   * @param destination The path of the copy
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   */
+  copy(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    return this.file(source, options).copyTo(destination, options);
+  }
+
+  /**
+   * Move a file to another path by copying it and deleting the source,
+   * unless the source was overwritten in the meantime.
+   *
+   * @param source The path of the file to move
+   * @param destination The new path of the file
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   */
+  async move(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    const file = this.file(source, options);
+    const { etag } = await file.stat();
+    const target = await file.copyTo(destination, { ...options, sourceIfMatch: etag });
+    await file.delete({ ifMatch: etag });
+    return target;
+  }
+
+  /**
+   * Delete a file from the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves when deletion is complete
+   */
+  unlink(path: string, options?: R2Options): Promise<void> {
+    return this.file(path, options).delete();
+  }
+
+  /**
+   * Delete a file from the bucket.
+   * Alias for {@link MemoryClient.unlink}.
+   */
+  delete(path: string, options?: R2Options): Promise<void> {
+    return this.file(path, options).delete();
+  }
+
+  /**
+   * Delete many files from the bucket, reporting failures per key.
+   *
+   * @param keys The paths of the files to delete
+   * @param options Additional R2 options to override defaults
+   * @returns The deleted keys and the keys that could not be deleted
+   */
+  deleteMany(keys: string[], options?: R2DeleteManyOptions): Promise<R2DeleteManyResult> {
+    return deleteMany(
+      keys,
+      bindingDeleteChunk(() => this.#bucket.asBinding()),
+      options,
+    );
+  }
+
+  /**
+   * Delete every file whose key starts with `prefix`.
+   *
+   * @param prefix The prefix of the files to delete, which must not be empty
+   * @param options Additional R2 options to override defaults, and `dryRun`
+   * @returns The deleted keys and the keys that could not be deleted
+   */
+  async deletePrefix(prefix: string, options?: R2DeletePrefixOptions): Promise<R2DeleteManyResult> {
+    if (!prefix) {
+      // Guard against wiping the whole bucket by accident
+      throw new TypeError("deletePrefix() requires a non-empty prefix");
+    }
+
+    return deleteListed(
+      this.list.iterate({ prefix }),
+      bindingDeleteChunk(() => this.#bucket.asBinding()),
+      options,
+    );
+  }
+
+  /**
+   * Creates a directory-style view of the files under `prefix`, to list,
+   * walk, create and remove folders. A trailing `/` is added to the prefix.
+   *
+   * @param prefix The prefix of the directory, or `""` for the root of the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns An R2Directory instance
+   */
+  dir(prefix: string, options?: R2Options): R2Directory {
+    return new R2PrefixDirectory(prefix, this.#directorySource(options));
+  }
+
+  #directorySource(options?: R2Options): DirectorySource {
+    return {
+      list: (page) => listBinding(this.#bucket.asBinding(), page),
+      file: (key, fileOptions) => this.file(key, { ...options, ...fileOptions }),
+      deleteChunk: bindingDeleteChunk(() => this.#bucket.asBinding()),
+      markers: true,
+    };
+  }
+
+  /**
+   * Synchronizes a local directory with the files under `prefix`, transferring
+   * only the files that are new or changed.
+   *
+   * @param localDir The path of the local directory
+   * @param prefix The prefix of the files in the bucket, or `""` for the whole bucket
+   * @param options Additional R2 options to override defaults, and the sync options
+   * @returns The changes of the sync, the unchanged keys and the changes that failed
+   */
+  sync(
+    localDir: string,
+    prefix: string,
+    options?: R2Options & R2SyncOptions,
+  ): Promise<R2SyncResult> {
+    return sync(localDir, prefix, this.#directorySource(options), {
+      ...this.#options,
+      ...options,
+    });
+  }
+
+  /**
+   * Get the size of a file in bytes.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to the file size in bytes
+   */
+  async size(path: string, options?: R2Options): Promise<number> {
+    const stat = await this.file(path, options).stat();
+    return stat.size;
+  }
+
+  /**
+   * Check if a file exists in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to true if the file exists, false otherwise
+   */
+  exists(path: string, options?: R2Options): Promise<boolean> {
+    return this.file(path, options).exists();
+  }
+
+  /**
+   * Get the stat of a file in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to the file stats
+   */
+  stat(path: string, options?: R2Options): Promise<R2Stats> {
+    return this.file(path, options).stat();
+  }
+
+  /**
+   * Returns some or all (up to 1,000) of the objects in the bucket.
+   *
+   * @param input Options for listing objects in the bucket
+   * @returns A promise that resolves to the list response
+   */
+  readonly list: R2ListFunction<ListOptions> = Object.assign(
+    (input?: R2ListObjectsOptions | null) => listBinding(this.#bucket.asBinding(), input),
+    {
+      iterate: (input?: R2ListIterateOptions | null) =>
+        paginate((page) => listBinding(this.#bucket.asBinding(), page), input),
+    },
+  );
+
+  /**
+   * Iterates over every object and common prefix in the bucket.
+   * Alias for `bucket.list.iterate()`.
+   *
+   * @param input Options for listing objects, plus a total `limit` and an abort `signal`
+   * @returns An async iterator of objects and common prefixes
+   */
+  listAll(input?: R2ListIterateOptions | null): AsyncGenerator<R2ListEntry> {
+    return this.list.iterate(input);
+  }
+
+  /**
+   * Remove every file from the bucket, e.g. between tests.
+   *
+   * @example
+   *     afterEach(() => bucket.reset());
+   */
+  reset(): void {
+    this.#bucket.clear();
+  }
+
+  /**
+   * Does nothing, since the bucket holds no connections. Like `Client.close()`,
+   * it keeps the files: use {@link reset} to remove them.
+   */
+  close(): void {}
+}
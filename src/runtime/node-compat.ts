@@ -1,16 +1,57 @@
 import { ListObjectsV2Command } from "@aws-sdk/client-s3";
 import type {
+  R2DeleteManyOptions,
+  R2DeleteManyResult,
+  R2DeletePrefixOptions,
+  R2Directory,
+  R2CopyOptions,
   R2File,
   R2FilePresignOptions,
+  R2PresignedPost,
+  R2PresignPostOptions,
+  R2ListEntry,
+  R2ListFunction,
+  R2ListIterateOptions,
   R2ListObjectsOptions,
   R2Options,
-  R2ListObjectsResponse,
   R2Stats,
+  R2SyncOptions,
+  R2SyncResult,
+  R2WriteData,
   R2ListObjectContent,
 } from "../lib/types.ts";
-import { createClient } from "../lib/create-client.ts";
+import { ClientPool, sharedPool } from "../lib/create-client.ts";
+import { isFileEndpoint, requireConfig, resolveConfig } from "../lib/config.ts";
 import { R2FileReader } from "../lib/file.ts";
-import { list } from "../lib/list.ts";
+import {
+  bindingDeleteChunk,
+  type DeleteChunk,
+  deleteListed,
+  deleteMany,
+  s3DeleteChunk,
+} from "../lib/delete.ts";
+import { type DirectorySource, R2PrefixDirectory } from "../lib/directory.ts";
+import { FileSystemBucket, fileSystemFile } from "../lib/fs-bucket.ts";
+import { list, paginate } from "../lib/list.ts";
+import { presignPost } from "../lib/post-policy.ts";
+import { sync } from "../lib/sync.ts";
+
+export {
+  BlobAccessDeniedError,
+  BlobConfigError,
+  BlobError,
+  BlobIntegrityError,
+  BlobInvalidRangeError,
+  BlobNetworkError,
+  BlobNotFoundError,
+  BlobNotModifiedError,
+  BlobPreconditionFailedError,
+} from "../lib/errors.ts";
+
+type ListOptions = Pick<
+  R2Options,
+  "accessKeyId" | "secretAccessKey" | "sessionToken" | "region" | "bucket" | "endpoint"
+>;
 
 /**
  * A configured S3/R2 bucket instance for managing files.
@@ -37,6 +78,7 @@ import { list } from "../lib/list.ts";
  */
 export class Client {
   readonly #options: R2Options | undefined;
+  readonly #pool = new ClientPool();
   /**
    * Create a new instance of an R2 bucket so that credentials can be managed
    * from a single instance instead of being passed to every method.
@@ -77,7 +119,7 @@ export class Client {
   /**
    * Creates an R2File instance for the given path.
    *
-   * @param path The path to the file in the bucket
+   * @param path The path to the file in the bucket, or an `s3://bucket/key` or `r2://bucket/key` URL
    * @param options Additional R2 options to override defaults
    * @returns An R2File instance
    *
@@ -89,15 +131,19 @@ export class Client {
    *       type: "application/json",
    *       acl: "private"
    *     });
+   *
+   *     // s3:// and r2:// URLs override the configured bucket
+   *     const archived = bucket.file("s3://archive-bucket/2024/report.pdf");
+   *     console.log(archived.bucket); // "archive-bucket"
    */
   file(path: string, options?: R2Options): R2File {
-    return new R2FileReader(path, { ...this.#options, ...options });
+    return Client.#file(path, { ...this.#options, ...options }, this.#pool);
   }
 
   /**
    * Creates an R2File instance for the given path.
    *
-   * @param path The path to the file in the bucket
+   * @param path The path to the file in the bucket, or an `s3://bucket/key` or `r2://bucket/key` URL
    * @param options R2 credentials and configuration options
    * @returns An R2File instance
    *
@@ -112,7 +158,15 @@ export class Client {
    *     });
    */
   static file(path: string, options?: R2Options): R2File {
-    return new R2FileReader(path, options);
+    return Client.#file(path, options, sharedPool);
+  }
+
+  static #file(path: string, options: R2Options | undefined, pool: ClientPool): R2File {
+    const config = resolveConfig(options);
+    if (isFileEndpoint(config.endpoint)) {
+      return fileSystemFile(path, config);
+    }
+    return new R2FileReader(path, options, undefined, pool);
   }
 
   /**
@@ -145,20 +199,7 @@ export class Client {
    *       type: "text/html"
    *     });
    */
-  write(
-    path: string,
-    data:
-      | string
-      | ArrayBufferView
-      | ArrayBuffer
-      | SharedArrayBuffer
-      | Request
-      | Response
-      | R2File
-      | Blob
-      | File,
-    options?: R2Options,
-  ): Promise<number> {
+  write(path: string, data: R2WriteData, options?: R2Options): Promise<number> {
     const file = this.file(path, { ...this.#options, ...options });
     return file.write(data);
   }
@@ -197,20 +238,7 @@ export class Client {
    *       type: "text/html"
    *     });
    */
-  static write(
-    path: string,
-    data:
-      | string
-      | ArrayBufferView
-      | ArrayBuffer
-      | SharedArrayBuffer
-      | Request
-      | Response
-      | R2File
-      | Blob
-      | File,
-    options?: R2Options,
-  ): Promise<number> {
+  static write(path: string, data: R2WriteData, options?: R2Options): Promise<number> {
     const file = Client.file(path, options);
     return file.write(data);
   }
@@ -242,6 +270,12 @@ export class Client {
    *       expiresIn: 7 * 24 * 60 * 60, // 7 days
    *       acl: "public-read"
    *     });
+   *
+   *     // Download under another name
+   *     const downloadAsUrl = bucket.presign("exports/8f3a.csv", {
+   *       responseContentDisposition: 'attachment; filename="report.csv"',
+   *       responseContentType: "text/csv"
+   *     });
    */
   async presign(path: string, options?: R2FilePresignOptions): Promise<string> {
     const file = this.file(path);
@@ -284,6 +318,129 @@ export class Client {
     return file.presign(options);
   }
 
+  /**
+   * Generate a presigned POST policy, so that browsers can upload a file
+   * straight from an HTML form.
+   *
+   * @param key The key of the upload, which may end with `${filename}` to accept any file name
+   * @param options Policy options, such as `maxSize` and `contentTypePrefix`
+   * @returns The URL to post the form to and the fields the form must include
+   *
+   * @example
+   *     const { url, fields } = await bucket.presignPost("uploads/${filename}", {
+   *       maxSize: 10 * 1024 * 1024,
+   *       contentTypePrefix: "image/",
+   *       expiresIn: 600
+   *     });
+   *
+   *     const form = new FormData();
+   *     for (const [name, value] of Object.entries(fields)) form.append(name, value);
+   *     form.append("file", input.files[0]); // must be the last field
+   *     await fetch(url, { method: "POST", body: form });
+   */
+  presignPost(key: string, options?: R2PresignPostOptions): Promise<R2PresignedPost> {
+    return presignPost(key, { ...this.#options, ...options });
+  }
+
+  /**
+   * Generate a presigned POST policy, so that browsers can upload a file
+   * straight from an HTML form.
+   *
+   * @param key The key of the upload, which may end with `${filename}` to accept any file name
+   * @param options R2 credentials and policy options
+   * @returns The URL to post the form to and the fields the form must include
+   *
+   * @example
+   *     const { url, fields } = await Client.presignPost("uploads/${filename}", {
+   *       ...credentials,
+   *       maxSize: 10 * 1024 * 1024
+   *     });
+   */
+  static presignPost(key: string, options?: R2PresignPostOptions): Promise<R2PresignedPost> {
+    return presignPost(key, options);
+  }
+
+  /**
+   * Copy a file to another path, server-side, without downloading it.
+   * Either path may be an `s3://bucket/key` URL to copy across buckets.
+   *
+   * @param source The path of the file to copy
+   * @param destination The path of the copy
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   *
+   * @example
+   *     // Duplicate an object
+   *     await bucket.copy("reports/2024.pdf", "reports/latest.pdf");
+   *
+   *     // Copy to another bucket, replacing the content type
+   *     await bucket.copy("data.bin", "s3://archive/data.bin", {
+   *       metadataDirective: "REPLACE",
+   *       type: "application/octet-stream"
+   *     });
+   */
+  copy(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    return this.file(source, options).copyTo(destination, options);
+  }
+
+  /**
+   * Copy a file to another path, server-side, without downloading it.
+   * Either path may be an `s3://bucket/key` URL to copy across buckets.
+   *
+   * @param source The path of the file to copy
+   * @param destination The path of the copy
+   * @param options R2 credentials and configuration options
+   * @returns The destination file
+   *
+   * @example
+   *     await Client.copy("reports/2024.pdf", "reports/latest.pdf", credentials);
+   */
+  static copy(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    return Client.file(source, options).copyTo(destination, options);
+  }
+
+  /**
+   * Move a file to another path by copying it and deleting the source.
+   * The copy is pinned to the ETag of the source when the move starts, so a
+   * concurrent overwrite of the source makes the move fail instead of losing data.
+   *
+   * @param source The path of the file to move
+   * @param destination The new path of the file
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   *
+   * @example
+   *     await bucket.move("uploads/tmp-123", "uploads/avatar.png");
+   */
+  async move(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    return Client.#move(this.file(source, options), destination, options);
+  }
+
+  /**
+   * Move a file to another path by copying it and deleting the source.
+   * The copy is pinned to the ETag of the source when the move starts, so a
+   * concurrent overwrite of the source makes the move fail instead of losing data.
+   *
+   * @param source The path of the file to move
+   * @param destination The new path of the file
+   * @param options R2 credentials and configuration options
+   * @returns The destination file
+   *
+   * @example
+   *     await Client.move("uploads/tmp-123", "uploads/avatar.png", credentials);
+   */
+  static async move(source: string, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    return Client.#move(Client.file(source, options), destination, options);
+  }
+
+  static async #move(file: R2File, destination: string, options?: R2CopyOptions): Promise<R2File> {
+    const { etag } = await file.stat();
+    const target = await file.copyTo(destination, { ...options, sourceIfMatch: etag });
+    // Keep the source if it was overwritten during the copy, so that the new version is not lost
+    await file.delete({ ifMatch: etag });
+    return target;
+  }
+
   /**
    * Delete a file from the bucket.
    *
@@ -383,6 +540,235 @@ export class Client {
     return file.delete();
   }
 
+  /**
+   * Delete many files from the bucket, in batches of up to 1000 keys.
+   * Failures are reported per key instead of rejecting.
+   *
+   * @param keys The paths of the files to delete
+   * @param options Additional R2 options to override defaults
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     const { deleted, errors } = await bucket.deleteMany(["a.txt", "b.txt"]);
+   *     for (const { key, code } of errors) {
+   *       console.error(`Could not delete ${key}: ${code}`);
+   *     }
+   */
+  deleteMany(
+    keys: string[],
+    options?: R2Options & R2DeleteManyOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.#deleteMany(keys, { ...this.#options, ...options }, this.#pool);
+  }
+
+  /**
+   * Delete many files from the bucket, in batches of up to 1000 keys.
+   * Failures are reported per key instead of rejecting.
+   *
+   * @param keys The paths of the files to delete
+   * @param options R2 credentials and configuration options
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     await Client.deleteMany(["a.txt", "b.txt"], credentials);
+   */
+  static deleteMany(
+    keys: string[],
+    options?: R2Options & R2DeleteManyOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.#deleteMany(keys, options, sharedPool);
+  }
+
+  static #deleteMany(
+    keys: string[],
+    options: (R2Options & R2DeleteManyOptions) | undefined,
+    pool: ClientPool,
+  ): Promise<R2DeleteManyResult> {
+    options = resolveConfig(options);
+    requireConfig(options, "bucket");
+    return deleteMany(keys, Client.#deleteChunk(options, pool), options);
+  }
+
+  static #deleteChunk(options: R2Options, pool: ClientPool): DeleteChunk {
+    if (isFileEndpoint(options.endpoint)) {
+      const local = new FileSystemBucket(options.endpoint!, options.bucket!);
+      return bindingDeleteChunk(() => local.asBinding());
+    }
+    return s3DeleteChunk(pool.get(options), options.bucket!);
+  }
+
+  /**
+   * Delete every file whose key starts with `prefix`.
+   * Files are deleted as the listing is paginated.
+   *
+   * @param prefix The prefix of the files to delete, which must not be empty
+   * @param options Additional R2 options to override defaults, and `dryRun`
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     // Preview, then remove everything belonging to a tenant
+   *     const { deleted } = await bucket.deletePrefix("tenants/42/", { dryRun: true });
+   *     console.log(`${deleted.length} files would be deleted`);
+   *     await bucket.deletePrefix("tenants/42/");
+   */
+  deletePrefix(
+    prefix: string,
+    options?: R2Options & R2DeletePrefixOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.#deletePrefix(prefix, { ...this.#options, ...options }, this.#pool);
+  }
+
+  /**
+   * Delete every file whose key starts with `prefix`.
+   * Files are deleted as the listing is paginated.
+   *
+   * @param prefix The prefix of the files to delete, which must not be empty
+   * @param options R2 credentials and configuration options, and `dryRun`
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     await Client.deletePrefix("tenants/42/", credentials);
+   */
+  static async deletePrefix(
+    prefix: string,
+    options?: R2Options & R2DeletePrefixOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.#deletePrefix(prefix, options, sharedPool);
+  }
+
+  static async #deletePrefix(
+    prefix: string,
+    options: (R2Options & R2DeletePrefixOptions) | undefined,
+    pool: ClientPool,
+  ): Promise<R2DeleteManyResult> {
+    if (!prefix) {
+      // Guard against wiping the whole bucket by accident
+      throw new TypeError("deletePrefix() requires a non-empty prefix");
+    }
+    options = resolveConfig(options);
+    requireConfig(options, "bucket");
+
+    return deleteListed(
+      paginate((page) => list(page, options, pool), { prefix }),
+      Client.#deleteChunk(options, pool),
+      options,
+    );
+  }
+
+  /**
+   * Creates a directory-style view of the files under `prefix`, to list,
+   * walk, create and remove folders. A trailing `/` is added to the prefix.
+   *
+   * @param prefix The prefix of the directory, or `""` for the root of the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns An R2Directory instance
+   *
+   * @example
+   *     const uploads = bucket.dir("uploads");
+   *     for (const entry of await uploads.readdir()) {
+   *       console.log("key" in entry ? entry.key : `${entry.prefix} (folder)`);
+   *     }
+   *     await uploads.rm({ recursive: true });
+   */
+  dir(prefix: string, options?: R2Options): R2Directory {
+    return Client.#dir(prefix, { ...this.#options, ...options }, this.#pool);
+  }
+
+  /**
+   * Creates a directory-style view of the files under `prefix`, to list,
+   * walk, create and remove folders. A trailing `/` is added to the prefix.
+   *
+   * @param prefix The prefix of the directory, or `""` for the root of the bucket
+   * @param options R2 credentials and configuration options
+   * @returns An R2Directory instance
+   *
+   * @example
+   *     const { size, fileCount } = await Client.dir("backups/", credentials).tree();
+   */
+  static dir(prefix: string, options?: R2Options): R2Directory {
+    return Client.#dir(prefix, options, sharedPool);
+  }
+
+  static #dir(prefix: string, options: R2Options | undefined, pool: ClientPool): R2Directory {
+    return new R2PrefixDirectory(prefix, Client.#directorySource(options, pool));
+  }
+
+  static #directorySource(options: R2Options | undefined, pool: ClientPool): DirectorySource {
+    const config = resolveConfig(options);
+    requireConfig(config, "bucket");
+
+    return {
+      list: (page) => list(page, config, pool),
+      file: (key, fileOptions) => Client.#file(key, { ...options, ...fileOptions }, pool),
+      deleteChunk: Client.#deleteChunk(config, pool),
+      markers: !isFileEndpoint(config.endpoint),
+    };
+  }
+
+  /**
+   * Synchronizes a local directory with the files under `prefix`, transferring
+   * only the files that are new or changed. Files are compared by size, then
+   * by ETag or modification time. Uploads infer the content type of each file
+   * from its extension.
+   *
+   * @param localDir The path of the local directory
+   * @param prefix The prefix of the files in the bucket, or `""` for the whole bucket
+   * @param options Additional R2 options to override defaults, and the sync options
+   * @returns The changes of the sync, the unchanged keys and the changes that failed
+   *
+   * @example
+   *     // Deploy a static site, removing the assets of the previous build
+   *     const { changes } = await bucket.sync("./dist", "site/", {
+   *       delete: true,
+   *       exclude: ["*.map", ".DS_Store"],
+   *     });
+   *
+   *     // Preview, then restore a backup
+   *     const plan = await bucket.sync("./work", "backups/work/", {
+   *       direction: "download",
+   *       dryRun: true,
+   *     });
+   *     console.log(plan.changes.map((change) => `${change.action} ${change.key}`));
+   */
+  sync(
+    localDir: string,
+    prefix: string,
+    options?: R2Options & R2SyncOptions,
+  ): Promise<R2SyncResult> {
+    return Client.#sync(localDir, prefix, { ...this.#options, ...options }, this.#pool);
+  }
+
+  /**
+   * Synchronizes a local directory with the files under `prefix`, transferring
+   * only the files that are new or changed. Files are compared by size, then
+   * by ETag or modification time. Uploads infer the content type of each file
+   * from its extension.
+   *
+   * @param localDir The path of the local directory
+   * @param prefix The prefix of the files in the bucket, or `""` for the whole bucket
+   * @param options R2 credentials and configuration options, and the sync options
+   * @returns The changes of the sync, the unchanged keys and the changes that failed
+   *
+   * @example
+   *     await Client.sync("./public", "assets/", { ...credentials, delete: true });
+   */
+  static async sync(
+    localDir: string,
+    prefix: string,
+    options?: R2Options & R2SyncOptions,
+  ): Promise<R2SyncResult> {
+    return Client.#sync(localDir, prefix, options, sharedPool);
+  }
+
+  static async #sync(
+    localDir: string,
+    prefix: string,
+    options: (R2Options & R2SyncOptions) | undefined,
+    pool: ClientPool,
+  ): Promise<R2SyncResult> {
+    return sync(localDir, prefix, Client.#directorySource(options, pool), options);
+  }
+
   /**
    * Get the size of a file in bytes.
    * Uses HEAD request to efficiently get size.
@@ -539,25 +925,36 @@ export class Client {
    *       fetchOwner: true,
    *     });
    *
-   *     // Check if more results are available
-   *     if (uploads.isTruncated) {
-   *       // List next batch of objects under `uploads/` prefix
-   *       const moreUploads = await bucket.list({
-   *         prefix: 'uploads/',
-   *         maxKeys: 500,
-   *         startAfter: uploads.contents!.at(-1).key
-   *         fetchOwner: true,
-   *       });
+   *     // Iterate over every object under `uploads/` prefix, across pages
+   *     for await (const entry of bucket.list.iterate({ prefix: 'uploads/' })) {
+   *       console.log(entry);
+   *     }
+   */
+  readonly list: R2ListFunction<ListOptions> = Object.assign(
+    (input?: R2ListObjectsOptions | null, options?: ListOptions) =>
+      list(input, { ...this.#options, ...options }, this.#pool),
+    {
+      iterate: (input?: R2ListIterateOptions | null, options?: ListOptions) =>
+        paginate((page) => list(page, { ...this.#options, ...options }, this.#pool), input),
+    },
+  );
+
+  /**
+   * Iterates over every object (and common prefix, when a delimiter is given)
+   * in the bucket, following continuation tokens transparently.
+   * Alias for `bucket.list.iterate()`.
+   *
+   * @param input Options for listing objects, plus a total `limit` and an abort `signal`
+   * @param options Additional R2 options to override defaults
+   * @returns An async iterator of objects and common prefixes
+   *
+   * @example
+   *     for await (const entry of bucket.listAll({ prefix: "logs/", limit: 5000 })) {
+   *       if ("key" in entry) console.log(entry.key);
    *     }
    */
-  list(
-    input?: R2ListObjectsOptions | null,
-    options?: Pick<
-      R2Options,
-      "accessKeyId" | "secretAccessKey" | "sessionToken" | "region" | "bucket" | "endpoint"
-    >,
-  ): Promise<R2ListObjectsResponse> {
-    return list(input, { ...this.#options, ...options });
+  listAll(input?: R2ListIterateOptions | null, options?: ListOptions): AsyncGenerator<R2ListEntry> {
+    return this.list.iterate(input, options);
   }
 
   /**
@@ -580,24 +977,62 @@ export class Client {
    *       fetchOwner: true,
    *     }, credentials);
    *
-   *     // Check if more results are available
-   *     if (uploads.isTruncated) {
-   *       // List next batch of objects under `uploads/` prefix
-   *       const moreUploads = await Client.list({
-   *         prefix: 'uploads/',
-   *         maxKeys: 500,
-   *         startAfter: uploads.contents!.at(-1).key
-   *         fetchOwner: true,
-   *       }, credentials);
+   *     // Iterate over every object under `uploads/` prefix, across pages
+   *     for await (const entry of Client.list.iterate({ prefix: 'uploads/' }, credentials)) {
+   *       console.log(entry);
    *     }
    */
-  static list(
-    input?: R2ListObjectsOptions | null,
-    options?: Pick<
-      R2Options,
-      "accessKeyId" | "secretAccessKey" | "sessionToken" | "region" | "bucket" | "endpoint"
-    >,
-  ): Promise<R2ListObjectsResponse> {
-    return list(input, options);
+  static readonly list: R2ListFunction<ListOptions> = Object.assign(
+    (input?: R2ListObjectsOptions | null, options?: ListOptions) => list(input, options),
+    {
+      iterate: (input?: R2ListIterateOptions | null, options?: ListOptions) =>
+        paginate((page) => list(page, options), input),
+    },
+  );
+
+  /**
+   * Iterates over every object (and common prefix, when a delimiter is given)
+   * in the bucket, following continuation tokens transparently.
+   * Alias for `Client.list.iterate()`.
+   *
+   * @param input Options for listing objects, plus a total `limit` and an abort `signal`
+   * @param options R2 credentials and configuration options
+   * @returns An async iterator of objects and common prefixes
+   *
+   * @example
+   *     for await (const entry of Client.listAll({ prefix: "logs/" }, credentials)) {
+   *       if ("key" in entry) console.log(entry.key);
+   *     }
+   */
+  static listAll(
+    input?: R2ListIterateOptions | null,
+    options?: ListOptions,
+  ): AsyncGenerator<R2ListEntry> {
+    return Client.list.iterate(input, options);
+  }
+
+  /**
+   * Close the connections of this client. Every file created by the client
+   * shares its connection pool, which keeps idle connections open so that
+   * later requests skip the TCP and TLS handshakes.
+   *
+   * The client stays usable after closing, opening new connections on demand.
+   *
+   * @example
+   *     process.on("SIGTERM", () => bucket.close());
+   */
+  close(): void {
+    this.#pool.close();
+  }
+
+  /**
+   * Close the connections shared by the static methods of `Client`.
+   *
+   * @example
+   *     await Client.write("report.json", data, credentials);
+   *     Client.close();
+   */
+  static close(): void {
+    sharedPool.close();
   }
 }
@@ -1,11 +1,624 @@
 // runtime.worker.ts
 import { AsyncLocalStorage } from "node:async_hooks";
+import type { R2Bucket } from "@cloudflare/workers-types";
+import type {
+  R2DeleteManyOptions,
+  R2DeleteManyResult,
+  R2DeletePrefixOptions,
+  R2CopyOptions,
+  R2BindingOptions,
+  R2Directory,
+  R2File,
+  R2FilePresignOptions,
+  R2PresignedPost,
+  R2PresignPostOptions,
+  R2ListEntry,
+  R2ListFunction,
+  R2ListIterateOptions,
+  R2ListObjectsOptions,
+  R2Stats,
+  R2WriteData,
+} from "../lib/types.ts";
+import { R2BindingFile } from "../lib/binding-file.ts";
+import { R2PrefixDirectory } from "../lib/directory.ts";
+import { bindingDeleteChunk, deleteListed, deleteMany } from "../lib/delete.ts";
+import { listBinding, paginate } from "../lib/list.ts";
+import { presignPost } from "../lib/post-policy.ts";
+import { setConfigEnv } from "../lib/config.ts";
+import { BlobConfigError } from "../lib/errors.ts";
 
-type Env = Record<string, string>;
+export {
+  BlobAccessDeniedError,
+  BlobConfigError,
+  BlobError,
+  BlobIntegrityError,
+  BlobInvalidRangeError,
+  BlobNetworkError,
+  BlobNotFoundError,
+  BlobNotModifiedError,
+  BlobPreconditionFailedError,
+} from "../lib/errors.ts";
+
+type ListOptions = Pick<R2BindingOptions, "binding" | "retry">;
+type Env = Record<string, unknown>;
 const requestContext = new AsyncLocalStorage<{ env: Env }>();
 
 export const getRequestContext = () => {
   const ctx = requestContext.getStore();
-  if (!ctx) throw new Error("No request context");
+  if (!ctx) {
+    throw new BlobConfigError(
+      "No request context, wrap the request handler with runWithRequestContext()",
+      ["env"],
+    );
+  }
   return ctx;
 };
+
+// Read R2_*, S3_* and AWS_* settings from the bindings of the current request,
+// falling back to process.env outside of requests or without those bindings
+setConfigEnv(() => ({ ...globalThis.process?.env, ...requestContext.getStore()?.env }));
+
+/**
+ * Runs `fn` with `env` as the request context, so that {@link Client} can
+ * resolve bucket bindings by name.
+ *
+ * @example
+ *     export default {
+ *       fetch(request, env) {
+ *         return runWithRequestContext({ env }, () => app.fetch(request));
+ *       },
+ *     };
+ */
+export const runWithRequestContext = <T>(ctx: { env: Env }, fn: () => T): T => {
+  return requestContext.run(ctx, fn);
+};
+
+const DEFAULT_BINDING = "BUCKET";
+
+/**
+ * Returns a function resolving the R2 bucket binding from the options or,
+ * by name, from the current request context.
+ */
+const bindingResolver = (options?: R2BindingOptions) => (): R2Bucket => {
+  const binding = options?.binding ?? DEFAULT_BINDING;
+  if (typeof binding !== "string") {
+    return binding;
+  }
+
+  const bucket = getRequestContext().env[binding];
+  if (!bucket || typeof bucket !== "object" || !("createMultipartUpload" in bucket)) {
+    throw new BlobConfigError(
+      `No R2 bucket binding named "${binding}" in the request context env`,
+      ["binding"],
+    );
+  }
+
+  return bucket as R2Bucket;
+};
+
+/**
+ * An R2 bucket client for Cloudflare Workers.
+ * Uses the native R2 bucket binding for every operation except presigned
+ * URLs, which are signed with the S3 credentials from the options.
+ *
+ * @example
+ *     const bucket = new Client({ binding: "UPLOADS" });
+ *
+ *     export default {
+ *       fetch(request, env) {
+ *         return runWithRequestContext({ env }, async () => {
+ *           await bucket.write("hello.txt", "Hello World");
+ *           return new Response(bucket.file("hello.txt").stream());
+ *         });
+ *       },
+ *     };
+ *
+ * @category Cloud Storage
+ */
+export class Client {
+  readonly #options: R2BindingOptions | undefined;
+
+  /**
+   * Create a new instance of an R2 bucket bound to a Workers binding.
+   *
+   * @param options The default options to use for the R2 client. Can be
+   * overriden by passing options to the methods.
+   * @returns A new Client instance
+   */
+  constructor(options?: R2BindingOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Creates an R2File instance for the given path.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns An R2File instance
+   */
+  file(path: string, options?: R2BindingOptions): R2File {
+    return Client.file(path, { ...this.#options, ...options });
+  }
+
+  /**
+   * Creates an R2File instance for the given path.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Binding and configuration options
+   * @returns An R2File instance
+   */
+  static file(path: string, options?: R2BindingOptions): R2File {
+    return new R2BindingFile(path, bindingResolver(options), options);
+  }
+
+  /**
+   * Writes data directly to a path in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param data The data to write to the file
+   * @param options Additional R2 options to override defaults
+   * @returns The number of bytes written
+   */
+  write(path: string, data: R2WriteData, options?: R2BindingOptions): Promise<number> {
+    const file = this.file(path, options);
+    return file.write(data, { ...this.#options, ...options });
+  }
+
+  /**
+   * Writes data directly to a path in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param data The data to write to the file
+   * @param options Binding and configuration options
+   * @returns The number of bytes written
+   */
+  static write(path: string, data: R2WriteData, options?: R2BindingOptions): Promise<number> {
+    const file = Client.file(path, options);
+    return file.write(data, options);
+  }
+
+  /**
+   * Generate a presigned URL for temporary access to a file.
+   * Requires S3 credentials in the options, since bindings cannot sign URLs.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Options for generating the presigned URL
+   * @returns A presigned URL string
+   */
+  presign(path: string, options?: R2FilePresignOptions): Promise<string> {
+    const file = this.file(path);
+    return file.presign(options);
+  }
+
+  /**
+   * Generate a presigned URL for temporary access to a file.
+   * Requires S3 credentials in the options, since bindings cannot sign URLs.
+   *
+   * @param path The path to the file in the bucket
+   * @param options S3 credentials and presigned URL configuration
+   * @returns A presigned URL string
+   */
+  static presign(path: string, options?: R2FilePresignOptions): Promise<string> {
+    const file = Client.file(path, options);
+    return file.presign(options);
+  }
+
+  /**
+   * Generate a presigned POST policy, so that browsers can upload a file
+   * straight from an HTML form.
+   * Requires S3 credentials in the options, since bindings cannot sign policies.
+   *
+   * @param key The key of the upload, which may end with `${filename}` to accept any file name
+   * @param options Policy options, such as `maxSize` and `contentTypePrefix`
+   * @returns The URL to post the form to and the fields the form must include
+   */
+  presignPost(key: string, options?: R2PresignPostOptions): Promise<R2PresignedPost> {
+    return presignPost(key, { ...this.#options, ...options });
+  }
+
+  /**
+   * Generate a presigned POST policy, so that browsers can upload a file
+   * straight from an HTML form.
+   * Requires S3 credentials in the options, since bindings cannot sign policies.
+   *
+   * @param key The key of the upload, which may end with `${filename}` to accept any file name
+   * @param options S3 credentials and policy options
+   * @returns The URL to post the form to and the fields the form must include
+   */
+  static presignPost(key: string, options?: R2PresignPostOptions): Promise<R2PresignedPost> {
+    return presignPost(key, options);
+  }
+
+  /**
+   * Copy a file to another path, server-side, without downloading it.
+   * Either path may be an `s3://bucket/key` URL to copy across buckets.
+   *
+   * @param source The path of the file to copy
+   * @param destination The path of the copy
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   *
+   * @example
+   *     // Duplicate an object
+   *     await bucket.copy("reports/2024.pdf", "reports/latest.pdf");
+   *
+   *     // Copy to another bucket, replacing the content type
+   *     await bucket.copy("data.bin", "s3://archive/data.bin", {
+   *       metadataDirective: "REPLACE",
+   *       type: "application/octet-stream"
+   *     });
+   */
+  copy(
+    source: string,
+    destination: string,
+    options?: R2CopyOptions & R2BindingOptions,
+  ): Promise<R2File> {
+    return this.file(source, options).copyTo(destination, options);
+  }
+
+  /**
+   * Copy a file to another path, server-side, without downloading it.
+   * Either path may be an `s3://bucket/key` URL to copy across buckets.
+   *
+   * @param source The path of the file to copy
+   * @param destination The path of the copy
+   * @param options Binding and configuration options
+   * @returns The destination file
+   *
+   * @example
+   *     await Client.copy("reports/2024.pdf", "reports/latest.pdf");
+   */
+  static copy(
+    source: string,
+    destination: string,
+    options?: R2CopyOptions & R2BindingOptions,
+  ): Promise<R2File> {
+    return Client.file(source, options).copyTo(destination, options);
+  }
+
+  /**
+   * Move a file to another path by copying it and deleting the source.
+   * The copy is pinned to the ETag of the source when the move starts, so a
+   * concurrent overwrite of the source makes the move fail instead of losing data.
+   *
+   * @param source The path of the file to move
+   * @param destination The new path of the file
+   * @param options Copy options, such as `metadataDirective`
+   * @returns The destination file
+   *
+   * @example
+   *     await bucket.move("uploads/tmp-123", "uploads/avatar.png");
+   */
+  async move(
+    source: string,
+    destination: string,
+    options?: R2CopyOptions & R2BindingOptions,
+  ): Promise<R2File> {
+    return Client.#move(this.file(source, options), destination, options);
+  }
+
+  /**
+   * Move a file to another path by copying it and deleting the source.
+   * The copy is pinned to the ETag of the source when the move starts, so a
+   * concurrent overwrite of the source makes the move fail instead of losing data.
+   *
+   * @param source The path of the file to move
+   * @param destination The new path of the file
+   * @param options Binding and configuration options
+   * @returns The destination file
+   *
+   * @example
+   *     await Client.move("uploads/tmp-123", "uploads/avatar.png");
+   */
+  static async move(
+    source: string,
+    destination: string,
+    options?: R2CopyOptions & R2BindingOptions,
+  ): Promise<R2File> {
+    return Client.#move(Client.file(source, options), destination, options);
+  }
+
+  static async #move(
+    file: R2File,
+    destination: string,
+    options?: R2CopyOptions & R2BindingOptions,
+  ): Promise<R2File> {
+    const { etag } = await file.stat();
+    const target = await file.copyTo(destination, { ...options, sourceIfMatch: etag });
+    // Keep the source if it was overwritten during the copy, so that the new version is not lost
+    await file.delete({ ifMatch: etag });
+    return target;
+  }
+
+  /**
+   * Delete a file from the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves when deletion is complete
+   */
+  unlink(path: string, options?: R2BindingOptions): Promise<void> {
+    return this.file(path, options).delete();
+  }
+
+  /**
+   * Delete a file from the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Binding and configuration options
+   * @returns A promise that resolves when deletion is complete
+   */
+  static unlink(path: string, options?: R2BindingOptions): Promise<void> {
+    return Client.file(path, options).delete();
+  }
+
+  /**
+   * Delete a file from the bucket.
+   * Alias for {@link Client.unlink}.
+   */
+  delete(path: string, options?: R2BindingOptions): Promise<void> {
+    return this.file(path, options).delete();
+  }
+
+  /**
+   * Delete a file from the bucket.
+   * Alias for {@link Client.unlink}.
+   */
+  static delete(path: string, options?: R2BindingOptions): Promise<void> {
+    return Client.file(path, options).delete();
+  }
+
+  /**
+   * Delete many files from the bucket, in batches of up to 1000 keys.
+   * Failures are reported per key instead of rejecting.
+   *
+   * @param keys The paths of the files to delete
+   * @param options Additional R2 options to override defaults
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     const { deleted, errors } = await bucket.deleteMany(["a.txt", "b.txt"]);
+   *     for (const { key, code } of errors) {
+   *       console.error(`Could not delete ${key}: ${code}`);
+   *     }
+   */
+  deleteMany(
+    keys: string[],
+    options?: R2BindingOptions & R2DeleteManyOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.deleteMany(keys, { ...this.#options, ...options });
+  }
+
+  /**
+   * Delete many files from the bucket, in batches of up to 1000 keys.
+   * Failures are reported per key instead of rejecting.
+   *
+   * @param keys The paths of the files to delete
+   * @param options Binding and configuration options
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     await Client.deleteMany(["a.txt", "b.txt"]);
+   */
+  static deleteMany(
+    keys: string[],
+    options?: R2BindingOptions & R2DeleteManyOptions,
+  ): Promise<R2DeleteManyResult> {
+    return deleteMany(keys, bindingDeleteChunk(bindingResolver(options), options), options);
+  }
+
+  /**
+   * Delete every file whose key starts with `prefix`.
+   * Files are deleted as the listing is paginated.
+   *
+   * @param prefix The prefix of the files to delete, which must not be empty
+   * @param options Additional R2 options to override defaults, and `dryRun`
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     // Preview, then remove everything belonging to a tenant
+   *     const { deleted } = await bucket.deletePrefix("tenants/42/", { dryRun: true });
+   *     console.log(`${deleted.length} files would be deleted`);
+   *     await bucket.deletePrefix("tenants/42/");
+   */
+  deletePrefix(
+    prefix: string,
+    options?: R2BindingOptions & R2DeletePrefixOptions,
+  ): Promise<R2DeleteManyResult> {
+    return Client.deletePrefix(prefix, { ...this.#options, ...options });
+  }
+
+  /**
+   * Delete every file whose key starts with `prefix`.
+   * Files are deleted as the listing is paginated.
+   *
+   * @param prefix The prefix of the files to delete, which must not be empty
+   * @param options Binding and configuration options, and `dryRun`
+   * @returns The deleted keys and the keys that could not be deleted
+   *
+   * @example
+   *     await Client.deletePrefix("tenants/42/");
+   */
+  static async deletePrefix(
+    prefix: string,
+    options?: R2BindingOptions & R2DeletePrefixOptions,
+  ): Promise<R2DeleteManyResult> {
+    if (!prefix) {
+      // Guard against wiping the whole bucket by accident
+      throw new TypeError("deletePrefix() requires a non-empty prefix");
+    }
+
+    return deleteListed(
+      Client.list.iterate({ prefix }, options),
+      bindingDeleteChunk(bindingResolver(options), options),
+      options,
+    );
+  }
+
+  /**
+   * Creates a directory-style view of the files under `prefix`, to list,
+   * walk, create and remove folders. A trailing `/` is added to the prefix.
+   *
+   * @param prefix The prefix of the directory, or `""` for the root of the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns An R2Directory instance
+   *
+   * @example
+   *     const uploads = bucket.dir("uploads");
+   *     for (const entry of await uploads.readdir()) {
+   *       console.log("key" in entry ? entry.key : `${entry.prefix} (folder)`);
+   *     }
+   *     await uploads.rm({ recursive: true });
+   */
+  dir(prefix: string, options?: R2BindingOptions): R2Directory {
+    return Client.dir(prefix, { ...this.#options, ...options });
+  }
+
+  /**
+   * Creates a directory-style view of the files under `prefix`, to list,
+   * walk, create and remove folders. A trailing `/` is added to the prefix.
+   *
+   * @param prefix The prefix of the directory, or `""` for the root of the bucket
+   * @param options Binding and configuration options
+   * @returns An R2Directory instance
+   *
+   * @example
+   *     const { size, fileCount } = await Client.dir("backups/").tree();
+   */
+  static dir(prefix: string, options?: R2BindingOptions): R2Directory {
+    const bucket = bindingResolver(options);
+    return new R2PrefixDirectory(prefix, {
+      list: (page) => listBinding(bucket(), page, options),
+      file: (key, fileOptions) => Client.file(key, { ...options, ...fileOptions }),
+      deleteChunk: bindingDeleteChunk(bucket, options),
+      markers: true,
+    });
+  }
+
+  /**
+   * Get the size of a file in bytes.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to the file size in bytes
+   */
+  async size(path: string, options?: R2BindingOptions): Promise<number> {
+    const stat = await this.file(path, options).stat();
+    return stat.size;
+  }
+
+  /**
+   * Get the size of a file in bytes.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Binding and configuration options
+   * @returns A promise that resolves to the file size in bytes
+   */
+  static async size(path: string, options?: R2BindingOptions): Promise<number> {
+    const stat = await Client.file(path, options).stat();
+    return stat.size;
+  }
+
+  /**
+   * Check if a file exists in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to true if the file exists, false otherwise
+   */
+  exists(path: string, options?: R2BindingOptions): Promise<boolean> {
+    return this.file(path, options).exists();
+  }
+
+  /**
+   * Check if a file exists in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Binding and configuration options
+   * @returns A promise that resolves to true if the file exists, false otherwise
+   */
+  static exists(path: string, options?: R2BindingOptions): Promise<boolean> {
+    return Client.file(path, options).exists();
+  }
+
+  /**
+   * Get the stat of a file in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to the file stats
+   */
+  stat(path: string, options?: R2BindingOptions): Promise<R2Stats> {
+    return this.file(path, options).stat();
+  }
+
+  /**
+   * Get the stat of a file in the bucket.
+   *
+   * @param path The path to the file in the bucket
+   * @param options Binding and configuration options
+   * @returns A promise that resolves to the file stats
+   */
+  static stat(path: string, options?: R2BindingOptions): Promise<R2Stats> {
+    return Client.file(path, options).stat();
+  }
+
+  /**
+   * Returns some or all (up to 1,000) of the objects in the bucket.
+   *
+   * @param input Options for listing objects in the bucket
+   * @param options Additional R2 options to override defaults
+   * @returns A promise that resolves to the list response
+   */
+  readonly list: R2ListFunction<ListOptions> = Object.assign(
+    (input?: R2ListObjectsOptions | null, options?: ListOptions) =>
+      Client.list(input, { ...this.#options, ...options }),
+    {
+      iterate: (input?: R2ListIterateOptions | null, options?: ListOptions) =>
+        Client.list.iterate(input, { ...this.#options, ...options }),
+    },
+  );
+
+  /**
+   * Iterates over every object and common prefix in the bucket.
+   * Alias for `bucket.list.iterate()`.
+   *
+   * @param input Options for listing objects, plus a total `limit` and an abort `signal`
+   * @param options Additional R2 options to override defaults
+   * @returns An async iterator of objects and common prefixes
+   */
+  listAll(input?: R2ListIterateOptions | null, options?: ListOptions): AsyncGenerator<R2ListEntry> {
+    return this.list.iterate(input, options);
+  }
+
+  /**
+   * Returns some or all (up to 1,000) of the objects in the bucket.
+   *
+   * @param input Options for listing objects in the bucket
+   * @param options Binding options
+   * @returns A promise that resolves to the list response
+   */
+  static readonly list: R2ListFunction<ListOptions> = Object.assign(
+    (input?: R2ListObjectsOptions | null, options?: ListOptions) =>
+      listBinding(bindingResolver(options)(), input, options),
+    {
+      iterate: (input?: R2ListIterateOptions | null, options?: ListOptions) =>
+        paginate((page) => listBinding(bindingResolver(options)(), page, options), input),
+    },
+  );
+
+  /**
+   * Iterates over every object and common prefix in the bucket.
+   * Alias for `Client.list.iterate()`.
+   *
+   * @param input Options for listing objects, plus a total `limit` and an abort `signal`
+   * @param options Binding options
+   * @returns An async iterator of objects and common prefixes
+   */
+  static listAll(
+    input?: R2ListIterateOptions | null,
+    options?: ListOptions,
+  ): AsyncGenerator<R2ListEntry> {
+    return Client.list.iterate(input, options);
+  }
+}